@@ -0,0 +1,57 @@
+export type ActivationName = 'sigmoid' | 'tanh' | 'relu' | 'leakyRelu' | 'linear';
+
+export interface Activation {
+    name: ActivationName;
+    label: string;
+    fn: (x: number) => number;
+    /** Derivative expressed in terms of the activation's output */
+    derivative: (y: number) => number;
+    /** Output range, used to scale values for display */
+    range: [number, number];
+}
+
+export const activations: Record<ActivationName, Activation> = {
+    sigmoid: {
+        name: 'sigmoid',
+        label: 'Sigmoid',
+        fn: (x) => 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x)))),
+        derivative: (y) => y * (1 - y),
+        range: [0, 1]
+    },
+    tanh: {
+        name: 'tanh',
+        label: 'Tanh',
+        fn: (x) => Math.tanh(x),
+        derivative: (y) => 1 - y * y,
+        range: [-1, 1]
+    },
+    relu: {
+        name: 'relu',
+        label: 'ReLU',
+        fn: (x) => Math.max(0, x),
+        derivative: (y) => y > 0 ? 1 : 0,
+        range: [0, Infinity]
+    },
+    leakyRelu: {
+        name: 'leakyRelu',
+        label: 'Leaky ReLU',
+        fn: (x) => x > 0 ? x : 0.01 * x,
+        derivative: (y) => y > 0 ? 1 : 0.01,
+        range: [-Infinity, Infinity]
+    },
+    linear: {
+        name: 'linear',
+        label: 'Linear',
+        fn: (x) => x,
+        derivative: () => 1,
+        range: [-Infinity, Infinity]
+    }
+};
+
+export function getActivation(name: string): Activation {
+    // Own keys only, so "constructor" and friends aren't mistaken for activations
+    if (!Object.hasOwn(activations, name)) {
+        throw new Error(`Unknown activation function: ${name}`);
+    }
+    return activations[name as ActivationName];
+}
@@ -1,7 +1,34 @@
+import { ActivationName, activations } from "./activations";
+import { CanvasRenderer } from "./canvasRenderer";
+import { TrainingCharts } from "./charts";
+import { createDataset, parseDatasetFile } from "./dataset";
+import { DecisionSurface } from "./decisionSurface";
+import { difficulties, DifficultyName } from "./difficulty";
+import { evaluateNetwork, EvaluationOptions, EvaluationReport } from "./evaluation";
+import { EvaluationPanel } from "./evaluationPanel";
+import { Evolution } from "./evolution";
+import { DEFAULT_FEATURES, FeatureName, features } from "./features";
+import { downloadFile, toFileName } from "./files";
+import { FixedTimestep, SIMULATION_SPEEDS, SimulationSpeed } from "./fixedTimestep";
 import { Game } from "./game";
+import { LineChart } from "./lineChart";
+import { lossActivationError, LossName, losses } from "./losses";
+import { ModelFile } from "./modelFormat";
+import { ModelLibrary } from "./modelLibrary";
+import { ModelStore } from "./modelStore";
 import { NeuralNetwork } from "./neuralNetwork";
-import { Trainer } from "./trainer";
-import { Visualizer } from "./visualizer";
+import { OptimizerName, optimizers } from "./optimizers";
+import { describePhysics, PhysicsConfig } from "./physics";
+import { PhysicsPanel } from "./physicsPanel";
+import { PolicyGradient, sampleFlap } from "./policyGradient";
+import { QLearner } from "./qLearning";
+import { Race, Racer } from "./race";
+import { RacePanel } from "./racePanel";
+import { Random } from "./random";
+import { ReplayRecorder } from "./replay";
+import { ReplayViewer } from "./replayViewer";
+import { ClassificationMetrics, LabelSource, Trainer } from "./trainer";
+import { EdgeMode, Visualizer } from "./visualizer";
 
 declare global {
     interface Window {
@@ -12,10 +39,37 @@ declare global {
 export class App {
     private gameCanvas: HTMLCanvasElement;
     private game: Game
-    private mode: 'idle' | 'playing' | 'training' | 'ai' = 'idle';
+    private renderer: CanvasRenderer;
+    private timestep = new FixedTimestep();
+    private speed: SimulationSpeed = 1;
+    private mode: 'idle' | 'playing' | 'training' | 'ai' | 'evolving' | 'qlearning' | 'policy' | 'replay' | 'race' = 'idle';
     private nn: NeuralNetwork;
     public trainer: Trainer;
     private visualizer: Visualizer;
+    private decisionSurface: DecisionSurface;
+    private evolution: Evolution;
+    private qLearner: QLearner;
+    private policyGradient: PolicyGradient;
+    private returnChart: LineChart;
+    private charts: TrainingCharts;
+    // Samples flaps when watching a stochastic policy
+    private aiRandom: Random;
+    private modelLibrary: ModelLibrary;
+    private modelBestScore = 0;
+    private modelName = 'Untitled network';
+    private recorder = new ReplayRecorder();
+    private replayViewer: ReplayViewer;
+    private physicsPanel: PhysicsPanel;
+    private race: Race | null = null;
+    private racePanel: RacePanel;
+    private evaluationPanel: EvaluationPanel;
+    private seed: number;
+    private hiddenLayers: number[] = [8];
+    private inputFeatures: FeatureName[] = [...DEFAULT_FEATURES];
+    private hiddenActivation: ActivationName = 'sigmoid';
+    private outputActivation: ActivationName = 'sigmoid';
+    private optimizerName: OptimizerName = 'sgd';
+    private lossName: LossName = 'bce';
 
     private nnCanvas: HTMLCanvasElement;
 
@@ -24,15 +78,62 @@ export class App {
     private bestScore: HTMLElement;
     private sampleCount: HTMLElement;
     private lossValue: HTMLElement;
+    private lossLabel: HTMLElement;
     private epochsValue: HTMLElement;
+    private validationLossValue: HTMLElement;
+    private accuracyValue: HTMLElement;
+    private precisionValue: HTMLElement;
+    private recallValue: HTMLElement;
+    private confusionCells: Record<keyof ClassificationMetrics['confusion'], HTMLElement>;
+    private earlyStopStatus: HTMLElement;
+    private generationValue: HTMLElement;
+    private aliveValue: HTMLElement;
+    private bestFitnessValue: HTMLElement;
+    private meanFitnessValue: HTMLElement;
+    private qEpisodeValue: HTMLElement;
+    private qEpsilonValue: HTMLElement;
+    private qRewardValue: HTMLElement;
+    private qAverageRewardValue: HTMLElement;
+    private qBestScoreValue: HTMLElement;
+    private qBufferValue: HTMLElement;
+    private pgEpisodeValue: HTMLElement;
+    private pgReturnValue: HTMLElement;
+    private pgAverageReturnValue: HTMLElement;
+    private pgBaselineValue: HTMLElement;
+    private pgBestScoreValue: HTMLElement;
 
     // Control elements
     private playBtn: HTMLButtonElement;
     private trainBtn: HTMLButtonElement;
+    private trainStatus: HTMLElement;
     private watchBtn: HTMLButtonElement;
     private resetBtn: HTMLButtonElement;
     private learningRateSlider: HTMLInputElement;
     private lrValue: HTMLElement;
+    private optimizerSelect: HTMLSelectElement;
+    private lossSelect: HTMLSelectElement;
+    private labelSourceSelect: HTMLSelectElement;
+    private earlyStoppingCheckbox: HTMLInputElement;
+    private seedInput: HTMLInputElement;
+    private speedSelect: HTMLSelectElement;
+    private difficultySelect: HTMLSelectElement;
+    private evolveBtn: HTMLButtonElement;
+    private promoteBtn: HTMLButtonElement;
+    private populationInput: HTMLInputElement;
+    private qLearnBtn: HTMLButtonElement;
+    private qPromoteBtn: HTMLButtonElement;
+    private pgTrainBtn: HTMLButtonElement;
+    private pgPromoteBtn: HTMLButtonElement;
+    private greedyCheckbox: HTMLInputElement;
+    private temperatureInput: HTMLInputElement;
+    private architectureSelect: HTMLSelectElement;
+    private hiddenActivationSelect: HTMLSelectElement;
+    private outputActivationSelect: HTMLSelectElement;
+    private featureList: HTMLElement;
+    private edgeModeSelect: HTMLSelectElement;
+    private exportDataBtn: HTMLButtonElement;
+    private importDataInput: HTMLInputElement;
+    private dataStatus: HTMLElement;
 
     constructor() {
         // Dom Elements
@@ -45,25 +146,135 @@ export class App {
         this.bestScore = document.getElementById('bestScore') as HTMLElement;
         this.sampleCount = document.getElementById('sampleCount') as HTMLElement;
         this.lossValue = document.getElementById('lossValue') as HTMLElement;
+        this.lossLabel = document.getElementById('lossLabel') as HTMLElement;
         this.epochsValue = document.getElementById('epochsValue') as HTMLElement;
+        this.validationLossValue = document.getElementById('validationLossValue') as HTMLElement;
+        this.accuracyValue = document.getElementById('accuracyValue') as HTMLElement;
+        this.precisionValue = document.getElementById('precisionValue') as HTMLElement;
+        this.recallValue = document.getElementById('recallValue') as HTMLElement;
+        this.confusionCells = {
+            truePositive: document.getElementById('truePositiveValue') as HTMLElement,
+            falsePositive: document.getElementById('falsePositiveValue') as HTMLElement,
+            trueNegative: document.getElementById('trueNegativeValue') as HTMLElement,
+            falseNegative: document.getElementById('falseNegativeValue') as HTMLElement
+        };
+        this.earlyStopStatus = document.getElementById('earlyStopStatus') as HTMLElement;
+        this.generationValue = document.getElementById('generationValue') as HTMLElement;
+        this.aliveValue = document.getElementById('aliveValue') as HTMLElement;
+        this.bestFitnessValue = document.getElementById('bestFitnessValue') as HTMLElement;
+        this.meanFitnessValue = document.getElementById('meanFitnessValue') as HTMLElement;
+        this.qEpisodeValue = document.getElementById('qEpisodeValue') as HTMLElement;
+        this.qEpsilonValue = document.getElementById('qEpsilonValue') as HTMLElement;
+        this.qRewardValue = document.getElementById('qRewardValue') as HTMLElement;
+        this.qAverageRewardValue = document.getElementById('qAverageRewardValue') as HTMLElement;
+        this.qBestScoreValue = document.getElementById('qBestScoreValue') as HTMLElement;
+        this.qBufferValue = document.getElementById('qBufferValue') as HTMLElement;
+        this.pgEpisodeValue = document.getElementById('pgEpisodeValue') as HTMLElement;
+        this.pgReturnValue = document.getElementById('pgReturnValue') as HTMLElement;
+        this.pgAverageReturnValue = document.getElementById('pgAverageReturnValue') as HTMLElement;
+        this.pgBaselineValue = document.getElementById('pgBaselineValue') as HTMLElement;
+        this.pgBestScoreValue = document.getElementById('pgBestScoreValue') as HTMLElement;
 
         // Control elements
         this.playBtn = document.getElementById('playBtn') as HTMLButtonElement;
         this.trainBtn = document.getElementById('trainBtn') as HTMLButtonElement;
+        this.trainStatus = document.getElementById('trainStatus') as HTMLElement;
         this.watchBtn = document.getElementById('watchBtn') as HTMLButtonElement;
         this.resetBtn = document.getElementById('resetBtn') as HTMLButtonElement;
         this.learningRateSlider = document.getElementById('learningRate') as HTMLInputElement;
         this.lrValue = document.getElementById('lrValue') as HTMLElement;
+        this.optimizerSelect = document.getElementById('optimizerSelect') as HTMLSelectElement;
+        this.lossSelect = document.getElementById('lossSelect') as HTMLSelectElement;
+        this.labelSourceSelect = document.getElementById('labelSourceSelect') as HTMLSelectElement;
+        this.earlyStoppingCheckbox = document.getElementById('earlyStoppingCheckbox') as HTMLInputElement;
+        this.seedInput = document.getElementById('seedInput') as HTMLInputElement;
+        this.speedSelect = document.getElementById('speedSelect') as HTMLSelectElement;
+        this.difficultySelect = document.getElementById('difficultySelect') as HTMLSelectElement;
+        this.evolveBtn = document.getElementById('evolveBtn') as HTMLButtonElement;
+        this.promoteBtn = document.getElementById('promoteBtn') as HTMLButtonElement;
+        this.populationInput = document.getElementById('populationInput') as HTMLInputElement;
+        this.qLearnBtn = document.getElementById('qLearnBtn') as HTMLButtonElement;
+        this.qPromoteBtn = document.getElementById('qPromoteBtn') as HTMLButtonElement;
+        this.pgTrainBtn = document.getElementById('pgTrainBtn') as HTMLButtonElement;
+        this.pgPromoteBtn = document.getElementById('pgPromoteBtn') as HTMLButtonElement;
+        this.greedyCheckbox = document.getElementById('greedyCheckbox') as HTMLInputElement;
+        this.temperatureInput = document.getElementById('temperatureInput') as HTMLInputElement;
+        this.architectureSelect = document.getElementById('architectureSelect') as HTMLSelectElement;
+        this.hiddenActivationSelect = document.getElementById('hiddenActivationSelect') as HTMLSelectElement;
+        this.outputActivationSelect = document.getElementById('outputActivationSelect') as HTMLSelectElement;
+        this.featureList = document.getElementById('featureList') as HTMLElement;
+        this.edgeModeSelect = document.getElementById('edgeModeSelect') as HTMLSelectElement;
+        this.exportDataBtn = document.getElementById('exportDataBtn') as HTMLButtonElement;
+        this.importDataInput = document.getElementById('importDataInput') as HTMLInputElement;
+        this.dataStatus = document.getElementById('dataStatus') as HTMLElement;
 
         // Components
-        this.game = new Game(this.gameCanvas);
-        this.nn = new NeuralNetwork(4, 8, 1);
-        this.trainer = new Trainer(this.nn);
+        this.seed = Random.randomSeed();
+        this.seedInput.value = String(this.seed);
+        this.game = new Game({ width: this.gameCanvas.width, height: this.gameCanvas.height }, new Random(this.seed));
+        this.renderer = new CanvasRenderer(this.gameCanvas);
+        this.hiddenLayers = this.parseHiddenLayers(this.architectureSelect.value);
+        this.populateActivationSelects();
+        this.populateFeatureList();
+        this.populateOptimizerSelect();
+        this.populateLossSelect();
+        this.populateSpeedSelect();
+        this.populateDifficultySelect();
+        this.nn = this.createNetwork();
+        this.trainer = new Trainer(this.nn, new Random(this.seed));
         this.visualizer = new Visualizer(this.nnCanvas, this.nn);
+        this.decisionSurface = new DecisionSurface(
+            document.getElementById('surfaceCanvas') as HTMLCanvasElement,
+            (state) => this.trainer.calculateOptimalAction(state)
+        );
+        this.evolution = new Evolution(parseInt(this.populationInput.value, 10), new Random(this.seed));
+        this.qLearner = this.createQLearner();
+        this.returnChart = new LineChart(document.getElementById('returnChart') as HTMLCanvasElement);
+        this.charts = new TrainingCharts();
+        this.policyGradient = this.createPolicyGradient();
+        this.aiRandom = new Random(this.seed);
+        const modelStore = new ModelStore();
+        this.modelLibrary = new ModelLibrary(
+            modelStore,
+            () => this.currentModelFile(),
+            (model, name) => this.loadModel(model, name)
+        );
+        this.racePanel = new RacePanel(
+            modelStore,
+            () => ({ nn: this.nn, name: this.modelName }),
+            (racers) => this.startRace(racers)
+        );
+        this.evaluationPanel = new EvaluationPanel(
+            modelStore,
+            () => ({ nn: this.nn, name: this.modelName }),
+            () => this.game.getConfig()
+        );
+        this.modelLibrary.onChange = () => {
+            this.racePanel.refresh();
+            this.evaluationPanel.refresh();
+        };
+        this.replayViewer = new ReplayViewer(
+            () => this.nn,
+            (player) => {
+                if (this.mode === 'evolving') this.stopEvolution();
+                if (this.mode === 'qlearning') this.stopQLearning();
+                if (this.mode === 'policy') this.stopPolicyGradient();
+                if (this.mode === 'race') this.stopRace();
+                this.renderer.birdStyles = null;
+                this.recorder.cancel();
+                this.mode = 'replay';
+                this.visualizer.nn = player.nn ?? this.nn;
+            },
+            () => {
+                this.mode = 'idle';
+                this.visualizer.nn = this.nn;
+            }
+        );
+        this.physicsPanel = new PhysicsPanel(this.game.physics, (physics) => this.setPhysics(physics));
 
         this.setupEventListeners();
         this.setupCallbacks();
-        this.render();
+        requestAnimationFrame((now) => this.render(now));
     }
 
     setupEventListeners() {
@@ -72,12 +283,90 @@ export class App {
         this.trainBtn.addEventListener('click', () => this.toggleTraining());
         this.watchBtn.addEventListener('click', () => this.startAI());
         this.resetBtn.addEventListener('click', () => this.reset());
+        this.evolveBtn.addEventListener('click', () => this.toggleEvolution());
+        this.promoteBtn.addEventListener('click', () => this.promoteChampion());
+        this.qLearnBtn.addEventListener('click', () => this.toggleQLearning());
+        this.qPromoteBtn.addEventListener('click', () => this.promoteQNetwork());
+        this.pgTrainBtn.addEventListener('click', () => this.togglePolicyGradient());
+        this.pgPromoteBtn.addEventListener('click', () => this.promotePolicy());
+
+        // Greedy toggle: temperature only matters when sampling
+        this.greedyCheckbox.addEventListener('change', () => {
+            this.temperatureInput.disabled = this.greedyCheckbox.checked;
+        });
 
         // Learning rate slider
         this.learningRateSlider.addEventListener('input', (e) => {
             this.lrValue.textContent = (e.target as HTMLInputElement).value;
         });
 
+        // Optimizer picker
+        this.optimizerSelect.addEventListener('change', () => {
+            this.setOptimizer(this.optimizerSelect.value as OptimizerName);
+        });
+
+        // Architecture picker
+        this.architectureSelect.addEventListener('change', () => {
+            this.setArchitecture(this.parseHiddenLayers(this.architectureSelect.value));
+        });
+
+        // Activation pickers
+        this.hiddenActivationSelect.addEventListener('change', () => {
+            this.hiddenActivation = this.hiddenActivationSelect.value as ActivationName;
+            this.setArchitecture(this.hiddenLayers);
+        });
+        this.outputActivationSelect.addEventListener('change', () => {
+            this.outputActivation = this.outputActivationSelect.value as ActivationName;
+            this.updateLossCompatibility();
+            this.setArchitecture(this.hiddenLayers);
+        });
+
+        // Visualizer connection colouring
+        this.edgeModeSelect.addEventListener('change', () => {
+            this.visualizer.edgeMode = this.edgeModeSelect.value as EdgeMode;
+        });
+
+        // Loss picker
+        this.lossSelect.addEventListener('change', () => {
+            this.setLoss(this.lossSelect.value as LossName);
+        });
+
+        // Label source picker
+        this.labelSourceSelect.addEventListener('change', () => {
+            this.trainer.labelSource = this.labelSourceSelect.value as LabelSource;
+            this.trainer.startEpisode();
+        });
+
+        // Early stopping toggle
+        this.earlyStoppingCheckbox.addEventListener('change', () => {
+            this.trainer.earlyStopping = this.earlyStoppingCheckbox.checked;
+        });
+
+        // Simulation speed picker
+        this.speedSelect.addEventListener('change', () => {
+            const value = this.speedSelect.value;
+            this.speed = value === 'max' ? 'max' : parseInt(value, 10) as SimulationSpeed;
+        });
+
+        // Difficulty picker
+        this.difficultySelect.addEventListener('change', () => {
+            this.setDifficulty(this.difficultySelect.value as DifficultyName);
+        });
+
+        // Dataset export/import
+        this.exportDataBtn.addEventListener('click', () => this.exportDataset());
+        this.importDataInput.addEventListener('change', () => this.importDataset());
+
+        // Seed input
+        this.seedInput.addEventListener('change', () => {
+            const seed = parseInt(this.seedInput.value, 10);
+            if (Number.isNaN(seed)) {
+                this.seedInput.value = String(this.seed);
+                return;
+            }
+            this.setSeed(seed);
+        });
+
         // Keyboard controls
         document.addEventListener('keydown', (e) => {
             if (e.code === 'Space') {
@@ -99,44 +388,123 @@ export class App {
         };
 
         this.game.onGameOver = (score) => {
+            // Evolution and reinforcement learning start the next episode themselves
+            if (this.mode === 'evolving' || this.mode === 'qlearning' || this.mode === 'policy') return;
+
+            if (this.mode === 'race' && this.race) {
+                const results = this.race.results(this.game);
+                this.racePanel.showResults(results);
+                const human = results.find(result => result.human);
+                if (human) this.charts.recordScore('human', human.score);
+                // Leave the final standings on screen until something else starts
+                this.race = null;
+                this.mode = 'idle';
+                return;
+            }
+
+            if (this.mode === 'ai') {
+                this.modelBestScore = Math.max(this.modelBestScore, score);
+                this.watchBtn.textContent = 'Watch AI';
+                this.charts.recordScore('ai', score);
+            } else if (this.mode === 'playing') {
+                this.charts.recordScore('human', score);
+            }
+
+            const replay = this.recorder.finish(score);
+            if (replay) this.replayViewer.add(replay);
+
             // this.showOverlay('Game Over!', `Score: ${score} | Click Play to try again`);
             this.mode = 'idle';
             this.playBtn.textContent = 'Play Again';
         };
 
-        this.game.onStateCapture = (state) => {
+        this.game.onFrame = (frame, flapped) => {
+            this.recorder.record(frame, flapped);
+        };
+
+        this.game.onStateCapture = (state, flapped) => {
             if (this.mode === 'playing') {
                 // Collect training data while playing
-                this.trainer.collectFromGameState(state);
+                this.trainer.collectFromGameState(state, flapped);
             }
         };
 
         // Trainer callbacks
+        this.trainer.onEpochComplete = (epoch) => this.charts.recordEpoch(epoch);
         this.trainer.onStatsUpdate = (stats) => {
             this.sampleCount.textContent = String(stats.totalSamples);
+            this.lossLabel.textContent = `Network Loss (${losses[stats.lossFunction].label})`;
             if (stats.currentLoss > 0) {
                 this.lossValue.textContent = stats.currentLoss.toFixed(4);
             }
             this.epochsValue.textContent = String(stats.trainedEpochs);
+            this.showValidationMetrics(stats.validation);
+            this.charts.recordStats(stats);
+            this.earlyStopStatus.textContent = stats.stoppedEarly
+                ? `Stopped early at epoch ${stats.trainedEpochs}: validation loss stopped improving`
+                : '';
 
             // Enable AI button when we have enough data
             if (stats.totalSamples >= 100) {
                 this.watchBtn.disabled = false;
             }
         };
+
+        // Evolution callbacks
+        this.evolution.onGenerationComplete = (stats) => {
+            this.generationValue.textContent = String(this.evolution.generation);
+            this.bestFitnessValue.textContent = String(stats.bestFitness);
+            this.meanFitnessValue.textContent = stats.meanFitness.toFixed(1);
+            this.promoteBtn.disabled = false;
+        };
+    }
+
+    /**
+     * Fill in the validation rows and confusion matrix, or dashes before there is a validation set
+     */
+    showValidationMetrics(metrics: ClassificationMetrics | null) {
+        const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+        this.validationLossValue.textContent = metrics ? metrics.loss.toFixed(4) : '-';
+        this.accuracyValue.textContent = metrics ? percent(metrics.accuracy) : '-';
+        this.precisionValue.textContent = metrics ? percent(metrics.precision) : '-';
+        this.recallValue.textContent = metrics ? percent(metrics.recall) : '-';
+        for (const [key, cell] of Object.entries(this.confusionCells)) {
+            cell.textContent = metrics ? String(metrics.confusion[key as keyof ClassificationMetrics['confusion']]) : '-';
+        }
     }
 
     handleFlap() {
-        if (this.mode === 'idle' && this.game.gameState !== 'playing') {
+        // Training runs in the worker, so a game can start alongside it
+        const free = this.mode === 'idle' || this.mode === 'training';
+        if (free && this.game.gameState !== 'playing') {
             this.startPlaying();
-        } else if (this.mode === 'playing') {
+        } else if (this.mode === 'playing' || (this.mode === 'race' && this.race?.hasHuman())) {
             this.game.flap();
         }
     }
 
+    /**
+     * Stop whatever is driving the game (replay, AI, evolution, reinforcement learning, race)
+     * and drop any episode being recorded, before something else takes over
+     */
+    stopActivities() {
+        if (this.mode === 'replay') this.replayViewer.close();
+        if (this.mode === 'ai') this.watchBtn.textContent = 'Watch AI';
+        if (this.mode === 'evolving') this.stopEvolution();
+        if (this.mode === 'qlearning') this.stopQLearning();
+        if (this.mode === 'policy') this.stopPolicyGradient();
+        if (this.mode === 'race') this.stopRace();
+        // A finished race's standings stay on screen until now
+        this.renderer.birdStyles = null;
+        this.recorder.cancel();
+    }
+
     startPlaying() {
+        this.stopActivities();
         this.mode = 'playing';
         this.game.start();
+        this.recorder.start(this.game, { type: 'human' });
+        this.trainer.startEpisode();
         this.playBtn.textContent = 'Playing...';
         this.playBtn.disabled = true;
 
@@ -155,9 +523,16 @@ export class App {
     }
 
     startTraining() {
-        if (this.trainer.trainingData.length < 32) {
+        if (!this.trainer.hasEnoughData()) {
+            this.setTrainStatus(`Need at least ${this.trainer.batchSize} training samples; play a few rounds first`, true);
+            return;
+        }
+        // Labels are single flap probabilities, which a Q-network can't learn
+        if (this.nn.outputSize !== 1) {
+            this.updateTrainAvailability();
             return;
         }
+        this.setTrainStatus('');
 
         this.mode = 'training';
         this.trainBtn.textContent = 'Stop Training';
@@ -165,66 +540,797 @@ export class App {
         document.body.classList.add('training');
 
         const learningRate = parseFloat(this.learningRateSlider.value);
-        this.trainer.startTraining(learningRate);
+        // Training runs in a worker, so the game stays playable meanwhile.
+        // Early stopping ends it without going through the button.
+        this.trainer.startTraining(learningRate, (error) => {
+            this.stopTraining();
+            if (error) this.setTrainStatus(error, true);
+        });
     }
 
     stopTraining() {
-        this.mode = 'idle';
+        if (this.mode === 'training') this.mode = 'idle';
         this.trainer.stopTraining();
         this.trainBtn.textContent = 'Train AI';
         this.trainBtn.classList.remove('training');
         document.body.classList.remove('training');
     }
 
+    /**
+     * End training without waiting for the worker, before the network it trains is replaced,
+     * so its last updates don't show up as the new network's stats
+     */
+    cancelTraining() {
+        if (!this.trainer.isTraining) return;
+        this.trainer.cancelTraining();
+        this.stopTraining();
+    }
+
+    /**
+     * Supervised training fits one flap probability, so Train AI is off for networks
+     * with other outputs, like a promoted Q-network's two action values
+     */
+    updateTrainAvailability() {
+        const supervised = this.nn.outputSize === 1;
+        this.trainBtn.disabled = !supervised;
+        this.setTrainStatus(supervised
+            ? ''
+            : `Train AI fits a single flap output and this network has ${this.nn.outputSize}; ` +
+              'pick an architecture or reset to train a new one', !supervised);
+    }
+
+    setTrainStatus(message: string, isError = false) {
+        this.trainStatus.textContent = message;
+        this.trainStatus.classList.toggle('error', isError);
+    }
+
     startAI() {
+        this.stopActivities();
         this.mode = 'ai';
         this.game.start();
+        this.recorder.start(this.game, {
+            type: 'ai',
+            modelName: this.modelName,
+            model: this.currentModelFile()
+        });
         this.watchBtn.textContent = 'Stop AI';
+    }
 
-        // AI game loop
-        const aiLoop = () => {
-            if (this.mode !== 'ai' || this.game.gameState !== 'playing') {
-                this.watchBtn.textContent = 'Watch AI';
-                return;
-            }
-
+    /**
+     * Let the network decide whether to flap, then advance the game
+     */
+    stepAI() {
+        if (this.game.isPlaying()) {
             const state = this.game.getGameState();
-            const shouldFlap = this.nn.predict(state);
+            const shouldFlap = this.nn.outputSize === 1 && !this.greedyCheckbox.checked
+                ? sampleFlap(this.nn.flapProbability(state), parseFloat(this.temperatureInput.value) || 0, this.aiRandom)
+                : this.nn.predict(state);
 
             if (shouldFlap) {
                 this.game.flap();
             }
+        }
+        this.game.update();
+    }
+
+    /**
+     * Use a new seed for the pipe sequence and data shuffling.
+     * Weight initialization picks it up on the next reset.
+     */
+    setSeed(seed: number) {
+        this.seed = seed >>> 0;
+        this.seedInput.value = String(this.seed);
+        this.game.random.setSeed(this.seed);
+        this.trainer.random.setSeed(this.seed);
+        this.aiRandom.setSeed(this.seed);
+    }
+
+    /**
+     * Switch difficulty and start over from a fresh game, so an episode
+     * (and its replay and scores) never mixes two difficulties
+     */
+    setDifficulty(name: DifficultyName) {
+        this.stopActivities();
+        if (this.mode !== 'training') this.mode = 'idle';
+        this.game.setDifficulty(name);
+        this.game.reset();
+    }
+
+    /**
+     * Switch game physics and start over from a fresh game.
+     * Collected samples are kept; their physics are recorded when exported.
+     */
+    setPhysics(physics: PhysicsConfig) {
+        this.stopActivities();
+        if (this.mode !== 'training') this.mode = 'idle';
+        this.game.setPhysics(physics);
+        this.game.reset();
+        this.physicsPanel.setPhysics(physics);
+    }
+
+    /**
+     * Download the collected samples, with the inputs, physics and difficulty they were collected under
+     */
+    exportDataset() {
+        const dataset = createDataset({
+            inputFeatures: [...this.inputFeatures],
+            physics: { ...this.game.physics },
+            difficulty: this.game.difficulty.name,
+            trainingData: this.trainer.trainingData,
+            validationData: this.trainer.validationData
+        });
+        downloadFile(toFileName(`dataset-${dataset.savedAt.slice(0, 10)}`, 'json'), JSON.stringify(dataset));
+    }
+
+    /**
+     * Replace the collected samples with a dataset file's.
+     * The dataset must encode the same inputs as the current network.
+     */
+    async importDataset() {
+        const file = this.importDataInput.files?.[0];
+        this.importDataInput.value = '';
+        if (!file) return;
+
+        try {
+            const dataset = parseDatasetFile(await file.text());
+            if (dataset.inputFeatures.join() !== this.inputFeatures.join()) {
+                throw new Error(`Dataset inputs (${dataset.inputFeatures.join(', ')}) don't match the network's`);
+            }
+            if (this.trainer.isTraining) this.stopTraining();
+            this.trainer.loadSamples(dataset.trainingData, dataset.validationData);
+            const count = dataset.trainingData.length + dataset.validationData.length;
+            this.setDataStatus(`Imported ${count} samples (${describePhysics(dataset.physics)} physics, ${difficulties[dataset.difficulty].label})`);
+        } catch (e) {
+            this.setDataStatus((e as Error).message, true);
+        }
+    }
+
+    setDataStatus(message: string, isError = false) {
+        this.dataStatus.textContent = message;
+        this.dataStatus.classList.toggle('error', isError);
+    }
+
+    /**
+     * Evaluate the current network in the current game setup,
+     * e.g. from the console: app.evaluate({ seeds: [1, 2, 3] })
+     */
+    evaluate(options: Partial<EvaluationOptions> = {}): EvaluationReport {
+        return evaluateNetwork(this.nn, { config: this.game.getConfig(), ...options });
+    }
+
+    /**
+     * Fly the player and networks side by side through the same pipes
+     */
+    startRace(racers: Racer[]) {
+        this.stopActivities();
+        this.mode = 'race';
+        this.race = new Race(racers);
+        this.renderer.birdStyles = this.race.racers.map(racer => ({
+            label: racer.name,
+            color: racer.color,
+            // Ghosts are see-through so the player's bird stays visible
+            alpha: racer.nn === null ? 1 : 0.6
+        }));
+        this.race.start(this.game);
+    }
+
+    stopRace() {
+        this.mode = 'idle';
+        this.race = null;
+        this.renderer.birdStyles = null;
+        this.game.reset();
+    }
+
+    toggleEvolution() {
+        if (this.mode === 'evolving') {
+            this.stopEvolution();
+        } else {
+            this.startEvolution();
+        }
+    }
+
+    startEvolution() {
+        const populationSize = parseInt(this.populationInput.value, 10);
+        if (Number.isNaN(populationSize) || populationSize < 2) {
+            return;
+        }
+
+        if (this.evolution.networks.length !== populationSize) {
+            this.evolution.populationSize = populationSize;
+            this.evolution.random.setSeed(this.seed);
+            this.evolution.initialize(this.layerSizes(), this.layerActivations(), this.inputFeatures);
+        }
+
+        this.stopActivities();
+        this.mode = 'evolving';
+        this.evolveBtn.textContent = 'Stop Evolving';
+        this.evolution.startGeneration(this.game);
+    }
+
+    /**
+     * Let every living bird's network act, or breed the next generation once all have died
+     */
+    stepEvolution() {
+        if (this.game.isGameOver()) {
+            this.evolution.nextGeneration(this.game);
+            this.evolution.startGeneration(this.game);
+        } else {
+            this.evolution.step(this.game);
+        }
+        this.game.update();
+    }
+
+    stopEvolution() {
+        this.mode = 'idle';
+        this.game.reset();
+        this.visualizer.nn = this.nn;
+        this.evolveBtn.textContent = 'Evolve';
+    }
+
+    /**
+     * Make the best evolved network the one used by "Watch AI"
+     */
+    promoteChampion() {
+        const champion = this.evolution.champion;
+        if (!champion) return;
+
+        if (this.mode === 'evolving') this.stopEvolution();
+        this.cancelTraining();
+        this.nn = champion.copy();
+        this.nn.setOptimizer(this.optimizerName);
+        this.nn.setLoss(this.lossName);
+        this.modelBestScore = 0;
+        this.modelName = `Champion (generation ${this.evolution.generation})`;
+        this.trainer.nn = this.nn;
+        this.visualizer.nn = this.nn;
+        this.updateTrainAvailability();
+        this.watchBtn.disabled = false;
+    }
+
+    toggleQLearning() {
+        if (this.mode === 'qlearning') {
+            this.stopQLearning();
+        } else {
+            this.startQLearning();
+        }
+    }
+
+    /**
+     * Learn from rewards: render() steps the learner instead of the game while in this mode
+     */
+    startQLearning() {
+        this.stopActivities();
+        this.mode = 'qlearning';
+        this.qLearnBtn.textContent = 'Stop Q-Learning';
+        this.visualizer.nn = this.qLearner.qNet;
+        this.qLearner.startEpisode(this.game);
+    }
+
+    stopQLearning() {
+        this.mode = 'idle';
+        this.game.random.setSeed(this.seed);
+        this.game.reset();
+        this.visualizer.nn = this.nn;
+        this.qLearnBtn.textContent = 'Q-Learn';
+    }
+
+    /**
+     * Make the current Q-network the one used by "Watch AI"
+     */
+    promoteQNetwork() {
+        if (this.mode === 'qlearning') this.stopQLearning();
+        this.cancelTraining();
+        this.nn = this.qLearner.qNet.copy();
+        this.modelBestScore = 0;
+        this.modelName = `Q-network (episode ${this.qLearner.getStats().episode})`;
+        this.trainer.nn = this.nn;
+        this.visualizer.nn = this.nn;
+        this.syncControlsToNetwork();
+        this.watchBtn.disabled = false;
+    }
+
+    /**
+     * Q-learner with the current hidden layers and one output per action
+     */
+    createQLearner(): QLearner {
+        const learner = new QLearner(
+            [this.inputFeatures.length, ...this.hiddenLayers, 2],
+            new Random(this.seed),
+            this.inputFeatures
+        );
+        learner.onEpisodeEnd = (stats) => {
+            this.qEpisodeValue.textContent = String(stats.episode);
+            this.qEpsilonValue.textContent = stats.epsilon.toFixed(3);
+            this.qRewardValue.textContent = stats.episodeReward.toFixed(1);
+            this.qAverageRewardValue.textContent = stats.averageReward.toFixed(1);
+            this.qBestScoreValue.textContent = String(stats.bestScore);
+            this.qBufferValue.textContent = String(stats.bufferSize);
+            this.qPromoteBtn.disabled = false;
+        };
+        return learner;
+    }
+
+    togglePolicyGradient() {
+        if (this.mode === 'policy') {
+            this.stopPolicyGradient();
+        } else {
+            this.startPolicyGradient();
+        }
+    }
+
+    /**
+     * Learn a stochastic policy: render() steps the learner instead of the game while in this mode
+     */
+    startPolicyGradient() {
+        this.stopActivities();
+        this.mode = 'policy';
+        this.pgTrainBtn.textContent = 'Stop Policy Gradient';
+        this.visualizer.nn = this.policyGradient.policyNet;
+        this.policyGradient.startEpisode(this.game);
+    }
+
+    stopPolicyGradient() {
+        this.mode = 'idle';
+        this.game.random.setSeed(this.seed);
+        this.game.reset();
+        this.visualizer.nn = this.nn;
+        this.pgTrainBtn.textContent = 'Policy Gradient';
+    }
+
+    /**
+     * Make the current policy the one used by "Watch AI"
+     */
+    promotePolicy() {
+        if (this.mode === 'policy') this.stopPolicyGradient();
+        this.cancelTraining();
+        this.nn = this.policyGradient.policyNet.copy();
+        this.modelBestScore = 0;
+        this.modelName = `Policy (episode ${this.policyGradient.getStats().episode})`;
+        this.trainer.nn = this.nn;
+        this.visualizer.nn = this.nn;
+        this.syncControlsToNetwork();
+        this.watchBtn.disabled = false;
+    }
 
-            requestAnimationFrame(aiLoop);
+    /**
+     * Policy-gradient learner with the current hidden layers and a single flap-probability output
+     */
+    createPolicyGradient(): PolicyGradient {
+        const learner = new PolicyGradient(
+            [this.inputFeatures.length, ...this.hiddenLayers, 1],
+            new Random(this.seed),
+            this.inputFeatures
+        );
+        learner.onEpisodeEnd = (stats) => {
+            this.pgEpisodeValue.textContent = String(stats.episode);
+            this.pgReturnValue.textContent = stats.episodeReturn.toFixed(1);
+            this.pgAverageReturnValue.textContent = stats.averageReturn.toFixed(1);
+            this.pgBaselineValue.textContent = stats.baseline.toFixed(2);
+            this.pgBestScoreValue.textContent = String(stats.bestScore);
+            this.pgPromoteBtn.disabled = false;
+            this.drawReturnChart();
         };
+        return learner;
+    }
+
+    drawReturnChart() {
+        // The histories only hold the latest episodes, so number them from the end
+        const { returnHistory, averageReturnHistory } = this.policyGradient;
+        const first = this.policyGradient.getStats().episode - returnHistory.length + 1;
+        const episodes = returnHistory.map((_, i) => first + i);
+        this.returnChart.setSeries([
+            { label: 'Return', color: '#3498db', values: returnHistory, x: episodes },
+            { label: 'Average (100)', color: '#e67e22', values: averageReturnHistory, x: episodes }
+        ]);
+    }
+
+    /**
+     * Hidden layer sizes from a comma-separated list such as "16,8"
+     */
+    parseHiddenLayers(value: string): number[] {
+        return value.split(',').map(size => parseInt(size, 10)).filter(size => size > 0);
+    }
+
+    layerSizes(): number[] {
+        return this.layerSizesFor(this.hiddenLayers);
+    }
+
+    layerSizesFor(hiddenLayers: number[]): number[] {
+        return [this.inputFeatures.length, ...hiddenLayers, 1];
+    }
+
+    /**
+     * One activation per non-input layer: the hidden choice for every hidden layer
+     */
+    layerActivations(): ActivationName[] {
+        return [...this.hiddenLayers.map(() => this.hiddenActivation), this.outputActivation];
+    }
+
+    populateActivationSelects() {
+        for (const select of [this.hiddenActivationSelect, this.outputActivationSelect]) {
+            for (const activation of Object.values(activations)) {
+                const option = document.createElement('option');
+                option.value = activation.name;
+                option.textContent = activation.label;
+                select.appendChild(option);
+            }
+        }
+        this.hiddenActivationSelect.value = this.hiddenActivation;
+        this.outputActivationSelect.value = this.outputActivation;
+    }
+
+    populateSpeedSelect() {
+        for (const speed of SIMULATION_SPEEDS) {
+            const option = document.createElement('option');
+            option.value = String(speed);
+            option.textContent = speed === 'max' ? 'Max (unrendered)' : `${speed}x`;
+            this.speedSelect.appendChild(option);
+        }
+        this.speedSelect.value = String(this.speed);
+    }
+
+    /**
+     * One checkbox per registered feature; the checked ones are the network's inputs
+     */
+    populateFeatureList() {
+        for (const feature of Object.values(features)) {
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = feature.name;
+            checkbox.checked = this.inputFeatures.includes(feature.name);
+            checkbox.addEventListener('change', () => {
+                const checked = Array.from(this.featureList.querySelectorAll('input'))
+                    .filter(input => input.checked)
+                    .map(input => input.value as FeatureName);
+                if (checked.length === 0) {
+                    // A network needs at least one input
+                    checkbox.checked = true;
+                    return;
+                }
+                this.setInputFeatures(checked);
+            });
+
+            const text = document.createElement('span');
+            text.textContent = feature.description;
+            label.append(checkbox, text);
+            this.featureList.appendChild(label);
+        }
+        this.updateArchitectureLabels();
+    }
+
+    /**
+     * Change the network's inputs. Collected samples hold the old inputs,
+     * so they are cleared along with rebuilding every network.
+     */
+    setInputFeatures(names: FeatureName[]) {
+        this.cancelTraining();
+        this.inputFeatures = [...names];
+        this.trainer.reset();
+        this.updateArchitectureLabels();
+        this.setArchitecture(this.hiddenLayers);
+    }
+
+    /**
+     * Architecture options show the full layer sizes, which start with the input count
+     */
+    updateArchitectureLabels() {
+        for (const option of Array.from(this.architectureSelect.options)) {
+            if (option.dataset.networkOnly) continue;
+            option.textContent = this.layerSizesFor(this.parseHiddenLayers(option.value)).join(' → ');
+        }
+    }
+
+    populateDifficultySelect() {
+        for (const difficulty of Object.values(difficulties)) {
+            const option = document.createElement('option');
+            option.value = difficulty.name;
+            option.textContent = difficulty.label;
+            this.difficultySelect.appendChild(option);
+        }
+        this.difficultySelect.value = this.game.difficulty.name;
+    }
+
+    populateOptimizerSelect() {
+        for (const [name, optimizer] of Object.entries(optimizers)) {
+            const option = document.createElement('option');
+            option.value = name;
+            option.textContent = optimizer.label;
+            this.optimizerSelect.appendChild(option);
+        }
+        this.optimizerSelect.value = this.optimizerName;
+    }
+
+    /**
+     * Switch the network's optimizer and move the learning rate to a sensible default for it
+     */
+    setOptimizer(name: OptimizerName) {
+        this.optimizerName = name;
+        this.nn.setOptimizer(name);
+
+        const learningRate = String(optimizers[name].defaultLearningRate);
+        this.learningRateSlider.value = learningRate;
+        this.lrValue.textContent = learningRate;
+    }
+
+    populateLossSelect() {
+        for (const loss of Object.values(losses)) {
+            const option = document.createElement('option');
+            option.value = loss.name;
+            option.textContent = loss.label;
+            this.lossSelect.appendChild(option);
+        }
+        this.lossSelect.value = this.lossName;
+        this.lossLabel.textContent = `Network Loss (${losses[this.lossName].label})`;
+        this.updateLossCompatibility();
+    }
+
+    /**
+     * Disable the losses the output activation can't train, and the output activations the loss can't
+     */
+    updateLossCompatibility() {
+        for (const option of Array.from(this.lossSelect.options)) {
+            option.disabled = lossActivationError(option.value as LossName, this.outputActivation) !== null;
+        }
+        for (const option of Array.from(this.outputActivationSelect.options)) {
+            option.disabled = lossActivationError(this.lossName, option.value as ActivationName) !== null;
+        }
+    }
+
+    /**
+     * Switch the loss being minimized. The displayed loss restarts since values aren't comparable.
+     */
+    setLoss(name: LossName) {
+        this.nn.setLoss(name);
+        this.lossName = name;
+        this.updateLossCompatibility();
+        this.lossLabel.textContent = `Network Loss (${losses[name].label})`;
+        this.lossValue.textContent = '-';
+    }
+
+    /**
+     * New network using the current architecture, activations, loss, optimizer and seed
+     */
+    createNetwork(): NeuralNetwork {
+        const nn = new NeuralNetwork(this.layerSizes(), new Random(this.seed), this.layerActivations(), this.inputFeatures);
+        nn.setOptimizer(this.optimizerName);
+        nn.setLoss(this.lossName);
+        return nn;
+    }
+
+    /**
+     * The current network as a model file, with this session's training details
+     */
+    currentModelFile(): ModelFile {
+        const stats = this.trainer.getStats();
+        return this.nn.toModelFile({
+            learningRate: parseFloat(this.learningRateSlider.value),
+            trainedEpochs: stats.trainedEpochs,
+            totalSamples: stats.totalSamples,
+            bestScore: this.modelBestScore,
+            seed: this.seed,
+            savedAt: new Date().toISOString()
+        }, this.game.getNormalization(), this.game.physics);
+    }
+
+    /**
+     * Put a saved model in the "Watch AI" slot and match the controls to it
+     */
+    loadModel(model: ModelFile, name: string) {
+        const nn = new NeuralNetwork(model.architecture.layerSizes, new Random(this.seed));
+        nn.fromJSON(JSON.stringify(model), this.game.getNormalization());
 
-        aiLoop();
+        this.cancelTraining();
+        if (this.mode === 'evolving') this.stopEvolution();
+
+        this.nn = nn;
+        this.trainer.nn = nn;
+        this.visualizer.nn = nn;
+        this.modelBestScore = model.training.bestScore;
+        this.modelName = name;
+        this.syncControlsToNetwork();
+        this.watchBtn.disabled = false;
+    }
+
+    /**
+     * Update the input, architecture, activation, optimizer and loss pickers from the current network.
+     * Collected samples are cleared if the network takes different inputs.
+     */
+    syncControlsToNetwork() {
+        if (this.nn.inputFeatures.join() !== this.inputFeatures.join()) {
+            this.inputFeatures = [...this.nn.inputFeatures];
+            this.trainer.reset();
+            for (const checkbox of Array.from(this.featureList.querySelectorAll('input'))) {
+                checkbox.checked = this.inputFeatures.includes(checkbox.value as FeatureName);
+            }
+        }
+
+        const sizes = this.nn.layerSizes;
+        this.hiddenLayers = sizes.slice(1, -1);
+        this.hiddenActivation = this.nn.activations[0];
+        this.outputActivation = this.nn.activations[this.nn.activations.length - 1];
+        this.optimizerName = this.nn.optimizer.name;
+        this.lossName = this.nn.loss;
+
+        if (this.layerSizesFor(this.hiddenLayers).join() === sizes.join()) {
+            this.selectArchitecture(this.hiddenLayers);
+        } else {
+            // A network the pickers can't rebuild, like a Q-network, gets an option of its own
+            // that can't be picked again once another architecture is chosen
+            this.architectureSelect.querySelector('option[data-network-only]')?.remove();
+            const option = document.createElement('option');
+            option.value = '';
+            option.disabled = true;
+            option.dataset.networkOnly = 'true';
+            option.textContent = sizes.join(' → ');
+            this.architectureSelect.appendChild(option);
+            this.architectureSelect.value = '';
+        }
+        this.updateArchitectureLabels();
+        this.hiddenActivationSelect.value = this.hiddenActivation;
+        this.outputActivationSelect.value = this.outputActivation;
+        this.optimizerSelect.value = this.optimizerName;
+        this.lossSelect.value = this.lossName;
+        this.updateLossCompatibility();
+        this.lossLabel.textContent = `Network Loss (${losses[this.lossName].label})`;
+        this.lossValue.textContent = '-';
+        this.updateTrainAvailability();
+    }
+
+    /**
+     * Show hidden layers in the architecture picker, adding an option for sizes it doesn't list
+     */
+    private selectArchitecture(hiddenLayers: number[]) {
+        this.architectureSelect.querySelector('option[data-network-only]')?.remove();
+        const value = hiddenLayers.join(',');
+        if (!Array.from(this.architectureSelect.options).some(option => option.value === value)) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = this.layerSizesFor(hiddenLayers).join(' → ');
+            this.architectureSelect.appendChild(option);
+        }
+        this.architectureSelect.value = value;
+    }
+
+    /**
+     * Rebuild the network with new hidden layers or activations.
+     * Collected training data is kept.
+     */
+    setArchitecture(hiddenLayers: number[]) {
+        if (this.mode === 'evolving') this.stopEvolution();
+        if (this.mode === 'qlearning') this.stopQLearning();
+        if (this.mode === 'policy') this.stopPolicyGradient();
+        this.cancelTraining();
+
+        this.hiddenLayers = hiddenLayers;
+        this.nn = this.createNetwork();
+        this.trainer.nn = this.nn;
+        this.visualizer.nn = this.nn;
+        this.modelBestScore = 0;
+        this.modelName = 'Untitled network';
+        this.selectArchitecture(hiddenLayers);
+        this.updateTrainAvailability();
+
+        this.evolution.random.setSeed(this.seed);
+        this.evolution.initialize(this.layerSizes(), this.layerActivations(), this.inputFeatures);
+        this.promoteBtn.disabled = true;
+        this.qLearner = this.createQLearner();
+        this.qPromoteBtn.disabled = true;
+        this.policyGradient = this.createPolicyGradient();
+        this.pgPromoteBtn.disabled = true;
+        this.drawReturnChart();
+        this.lossValue.textContent = '-';
     }
 
     reset() {
+        this.stopActivities();
+        this.cancelTraining();
         this.mode = 'idle';
         this.game.reset();
         this.trainer.reset();
-        this.nn = new NeuralNetwork(4, 8, 1);
+        this.trainer.random.setSeed(this.seed);
+        this.nn = this.createNetwork();
         this.trainer.nn = this.nn;
         this.visualizer.nn = this.nn;
+        this.modelBestScore = 0;
+        this.modelName = 'Untitled network';
+        this.selectArchitecture(this.hiddenLayers);
+        this.updateTrainAvailability();
 
         this.scoreValue.textContent = '0';
         this.sampleCount.textContent = '0';
         this.lossValue.textContent = '-';
         this.epochsValue.textContent = '0';
+        this.evolution.random.setSeed(this.seed);
+        this.evolution.initialize(this.layerSizes(), this.layerActivations(), this.inputFeatures);
+        this.generationValue.textContent = '0';
+        this.aliveValue.textContent = '0';
+        this.bestFitnessValue.textContent = '-';
+        this.meanFitnessValue.textContent = '-';
+        this.promoteBtn.disabled = true;
+        this.evolveBtn.textContent = 'Evolve';
+        this.qLearner = this.createQLearner();
+        this.qEpisodeValue.textContent = '0';
+        this.qEpsilonValue.textContent = '-';
+        this.qRewardValue.textContent = '-';
+        this.qAverageRewardValue.textContent = '-';
+        this.qBestScoreValue.textContent = '0';
+        this.qBufferValue.textContent = '0';
+        this.qPromoteBtn.disabled = true;
+        this.policyGradient = this.createPolicyGradient();
+        this.pgEpisodeValue.textContent = '0';
+        this.pgReturnValue.textContent = '-';
+        this.pgAverageReturnValue.textContent = '-';
+        this.pgBaselineValue.textContent = '-';
+        this.pgBestScoreValue.textContent = '0';
+        this.pgPromoteBtn.disabled = true;
+        this.drawReturnChart();
         this.watchBtn.disabled = true;
         this.playBtn.textContent = 'Play Game';
         this.trainBtn.textContent = 'Train AI';
     }
 
-    render() {
-        this.game.update();
-        this.game.draw();
+    /**
+     * Advance whatever is running by one fixed physics step
+     */
+    step() {
+        switch (this.mode) {
+            case 'replay':
+                this.replayViewer.tick();
+                break;
+            case 'ai':
+                this.stepAI();
+                break;
+            case 'evolving':
+                this.stepEvolution();
+                break;
+            case 'race':
+                this.race?.step(this.game);
+                this.game.update();
+                break;
+            case 'qlearning':
+                this.qLearner.step(this.game);
+                break;
+            case 'policy':
+                this.policyGradient.step(this.game);
+                break;
+            default:
+                this.game.update();
+        }
+    }
+
+    /**
+     * Speed for the current mode: the chosen one when the AI is playing or learning in the game,
+     * real time for human play and replays (which have their own speed control).
+     * Supervised training runs in a worker, so the game doesn't need to go faster for it.
+     */
+    simulationSpeed(): SimulationSpeed {
+        const aiOnly = this.mode === 'race' && !this.race?.hasHuman();
+        return this.mode === 'ai' || this.mode === 'evolving' ||
+            this.mode === 'qlearning' || this.mode === 'policy' || aiOnly
+            ? this.speed
+            : 1;
+    }
+
+    render(now: number) {
+        const speed = this.simulationSpeed();
+        this.timestep.run(now, speed, () => this.step());
 
-        this.visualizer.draw();
+        if (this.mode === 'evolving') {
+            this.aliveValue.textContent = String(this.game.aliveCount());
+            this.visualizer.nn = this.evolution.leader(this.game) ?? this.nn;
+        }
+
+        // At max speed, all the frame's time goes to simulating
+        if (speed !== 'max') {
+            const player = this.replayViewer.player;
+            const shownGame = this.mode === 'replay' && player ? player.game : this.game;
+            this.renderer.draw(shownGame);
+            this.visualizer.draw();
+            this.decisionSurface.update(this.visualizer.nn, shownGame.getGameState());
+        }
 
-        requestAnimationFrame(() => this.render());
+        requestAnimationFrame((time) => this.render(time));
     }
 }
 
@@ -0,0 +1,65 @@
+import { describeDifficulty } from "./difficulty";
+import { Game } from "./game";
+import { Renderer } from "./renderer";
+
+/**
+ * Renders the game as a grid of characters, for terminals and headless runs.
+ */
+export class AsciiRenderer implements Renderer {
+    private columns: number;
+    private rows: number;
+    private output: (frame: string) => void;
+
+    constructor(columns = 40, rows = 20, output: (frame: string) => void = console.log) {
+        this.columns = columns;
+        this.rows = rows;
+        this.output = output;
+    }
+
+    draw(game: Game) {
+        this.output(this.render(game));
+    }
+
+    /**
+     * Build the frame as a string without writing it anywhere
+     */
+    render(game: Game): string {
+        const scaleX = game.width / this.columns;
+        const scaleY = game.height / this.rows;
+        const grid: string[][] = [];
+
+        for (let r = 0; r < this.rows; r++) {
+            const y = (r + 0.5) * scaleY;
+            grid[r] = new Array(this.columns).fill(y >= game.groundY ? '=' : ' ');
+        }
+
+        for (const pipe of game.pipes) {
+            const startCol = Math.max(0, Math.floor(pipe.x / scaleX));
+            const endCol = Math.min(this.columns - 1, Math.floor((pipe.x + pipe.width) / scaleX));
+            for (let c = startCol; c <= endCol; c++) {
+                for (let r = 0; r < this.rows; r++) {
+                    const y = (r + 0.5) * scaleY;
+                    if (y >= game.groundY) continue;
+                    if (y < pipe.gapY || y > pipe.gapY + pipe.gapHeight) {
+                        grid[r][c] = '#';
+                    }
+                }
+            }
+        }
+
+        const single = game.birds.length === 1;
+        for (const bird of game.birds) {
+            if (!single && !bird.alive) continue;
+            const col = Math.floor((bird.x + bird.width / 2) / scaleX);
+            const row = Math.floor((bird.y + bird.height / 2) / scaleY);
+            if (row >= 0 && row < this.rows && col >= 0 && col < this.columns) {
+                grid[row][col] = bird.alive ? '@' : 'x';
+            }
+        }
+
+        const lines = grid.map(row => row.join(''));
+        lines.push(`Score: ${game.score}  Best: ${game.bestScore}  State: ${game.gameState}`);
+        lines.push(describeDifficulty(game.difficulty, game.getDifficultyLevel()));
+        return lines.join('\n');
+    }
+}
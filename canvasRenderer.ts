@@ -0,0 +1,180 @@
+import { describeDifficulty } from "./difficulty";
+import { Bird, Game, Pipe } from "./game";
+import { Renderer } from "./renderer";
+
+/**
+ * How to draw one bird when birds need telling apart, e.g. in a race
+ */
+export type BirdStyle = {
+    label: string;
+    color: string;
+    alpha: number;
+};
+
+export class CanvasRenderer implements Renderer {
+    private ctx: CanvasRenderingContext2D | null;
+    // Per-bird styles, by bird index, with a legend; null draws every bird alike
+    public birdStyles: BirdStyle[] | null = null;
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.ctx = canvas.getContext("2d");
+    }
+
+    draw(game: Game) {
+        const ctx = this.ctx;
+        if (!ctx) return;
+
+        // Background gradient
+        const bgGradient = ctx.createLinearGradient(0, 0, 0, game.height);
+        bgGradient.addColorStop(0, '#1a1a3e');
+        bgGradient.addColorStop(0.5, '#12122a');
+        bgGradient.addColorStop(1, '#0a0a1a');
+        ctx.fillStyle = "#87CEEB";
+        ctx.fillRect(0, 0, game.width, game.height);
+
+        // Stars
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+        for (let i = 0; i < 50; i++) {
+            const x = (i * 97) % game.width;
+            const y = (i * 53) % (game.height - 100);
+            const size = (i % 3) + 1;
+            ctx.beginPath();
+            ctx.arc(x, y, size, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        // Ground
+        ctx.fillStyle = '#53a600ff';
+        ctx.fillRect(0, game.groundY, game.width, game.height - game.groundY);
+        ctx.strokeStyle = '#00ff88';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(0, game.groundY);
+        ctx.lineTo(game.width, game.groundY);
+        ctx.stroke();
+
+        // Draw pipes
+        for (const pipe of game.pipes) {
+            this.drawPipe(ctx, pipe);
+        }
+
+        // Draw birds. A population is drawn translucent and only while alive
+        const styles = this.birdStyles;
+        const single = game.birds.length === 1;
+        game.birds.forEach((bird, i) => {
+            if (!single && !bird.alive) return;
+            ctx.globalAlpha = styles?.[i]?.alpha ?? (single ? 1 : 0.5);
+            this.drawBird(ctx, bird, styles?.[i]?.color);
+        });
+        ctx.globalAlpha = 1;
+        if (styles) this.drawLegend(ctx, game, styles);
+
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 48px Outfit';
+        ctx.textAlign = 'center';
+        ctx.fillText(game.score.toString(), game.width / 2, 70);
+
+        // Current difficulty, along the ground
+        ctx.font = '14px Outfit';
+        ctx.textAlign = 'left';
+        ctx.fillText(describeDifficulty(game.difficulty, game.getDifficultyLevel()), 10, game.groundY + 30);
+    }
+
+    /**
+     * Each styled bird's colour, label and score, crossed out once it has died
+     */
+    drawLegend(ctx: CanvasRenderingContext2D, game: Game, styles: BirdStyle[]) {
+        ctx.font = '12px Outfit';
+        ctx.textAlign = 'left';
+        styles.forEach((style, i) => {
+            const bird = game.birds[i];
+            if (!bird) return;
+            const y = 100 + i * 16;
+            ctx.globalAlpha = bird.alive ? 1 : 0.5;
+            ctx.fillStyle = style.color;
+            ctx.fillRect(10, y - 9, 10, 10);
+            ctx.fillStyle = '#ffffff';
+            const text = `${style.label}: ${bird.score}`;
+            ctx.fillText(text, 26, y);
+            if (!bird.alive) {
+                ctx.fillRect(26, y - 4, ctx.measureText(text).width, 1);
+            }
+        });
+        ctx.globalAlpha = 1;
+    }
+
+    drawBird(ctx: CanvasRenderingContext2D, bird: Bird, bodyColor = "#ffdd00") {
+        ctx.save();
+        ctx.translate(bird.x + bird.width / 2, bird.y + bird.height / 2);
+        ctx.rotate((Math.PI / 180) * bird.rotation);
+
+        // Body
+        ctx.fillStyle = bodyColor;
+        ctx.beginPath();
+        ctx.ellipse(0, 0, bird.width / 2, bird.height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Eye
+        ctx.fillStyle = "#fff";
+        ctx.beginPath();
+        ctx.arc(8, -4, 6, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Pupil
+        ctx.fillStyle = "#000";
+        ctx.beginPath();
+        ctx.arc(10, -4, 3, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Beak
+        ctx.fillStyle = "#ff6600";
+        ctx.beginPath();
+        ctx.moveTo(15, 0);
+        ctx.lineTo(22, 3);
+        ctx.lineTo(15, 6);
+        ctx.closePath();
+        ctx.fill();
+
+        // Wing
+        ctx.fillStyle = "#ffaa00";
+        ctx.beginPath();
+        ctx.ellipse(-5, 4, 10, 6, -0.3, 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.restore();
+    }
+
+    drawPipe(ctx: CanvasRenderingContext2D, pipe: Pipe) {
+        const pipeGradient = ctx.createLinearGradient(
+            pipe.x,
+            0,
+            pipe.x + pipe.width,
+            0
+        );
+        pipeGradient.addColorStop(0, "#00aa44");
+        pipeGradient.addColorStop(0.5, "#00ff66");
+        pipeGradient.addColorStop(1, "#00aa44");
+
+        // Top pipe
+        ctx.fillStyle = pipeGradient;
+        ctx.fillRect(pipe.x, 0, pipe.width, pipe.gapY);
+
+        // Top pipe cap
+        ctx.fillStyle = "#00cc55";
+        ctx.fillRect(pipe.x - 4, pipe.gapY - 25, pipe.width + 8, 25);
+        ctx.strokeStyle = "#008833";
+        ctx.lineWidth = 2;
+        ctx.strokeRect(pipe.x - 4, pipe.gapY - 25, pipe.width + 8, 25);
+
+        // Bottom pipe
+        ctx.fillStyle = pipeGradient;
+        const bottomY = pipe.gapY + pipe.gapHeight;
+        ctx.fillRect(pipe.x, bottomY, pipe.width, pipe.canvasHeight - bottomY);
+
+        // Bottom pipe cap
+        ctx.fillStyle = "#00cc55";
+        ctx.fillRect(pipe.x - 4, bottomY, pipe.width + 8, 25);
+        ctx.strokeStyle = "#008833";
+        ctx.strokeRect(pipe.x - 4, bottomY, pipe.width + 8, 25);
+    }
+}
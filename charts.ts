@@ -0,0 +1,151 @@
+import { downloadFile } from "./files";
+import { LineChart } from "./lineChart";
+import { EpochLoss, TrainingStats } from "./trainer";
+
+export type EpisodePlayer = 'human' | 'ai';
+
+type SamplePoint = { seconds: number, samples: number };
+
+// Minimum time between redraws; sample counts change every frame while playing
+const DRAW_INTERVAL_MS = 250;
+
+// Longest loss and sample histories; past this every other point is dropped
+const MAX_POINTS = 2000;
+
+/**
+ * Charts panel: loss per epoch, score per episode and sample count over the whole session.
+ * History survives resets; epochs keep counting up across them.
+ */
+export class TrainingCharts {
+    private lossHistory: EpochLoss[] = [];
+    private scoreHistory: Record<EpisodePlayer, number[]> = { human: [], ai: [] };
+    private sampleHistory: SamplePoint[] = [];
+    // Epochs trained before the trainer was last reset
+    private epochOffset = 0;
+    private lastEpoch = 0;
+    private startTime = performance.now();
+    private drawPending = false;
+
+    private lossChart: LineChart;
+    private scoreChart: LineChart;
+    private sampleChart: LineChart;
+
+    constructor() {
+        this.lossChart = new LineChart(document.getElementById('lossChart') as HTMLCanvasElement);
+        this.scoreChart = new LineChart(document.getElementById('scoreChart') as HTMLCanvasElement);
+        this.sampleChart = new LineChart(document.getElementById('sampleChart') as HTMLCanvasElement);
+
+        document.getElementById('lossCsvBtn')!.addEventListener('click', () => this.exportLoss());
+        document.getElementById('scoreCsvBtn')!.addEventListener('click', () => this.exportScores());
+        document.getElementById('sampleCsvBtn')!.addEventListener('click', () => this.exportSamples());
+
+        this.draw();
+    }
+
+    /**
+     * Wire to Trainer.onEpochComplete
+     */
+    recordEpoch(epoch: EpochLoss) {
+        // The trainer was reset and is counting from 1 again
+        if (epoch.epoch <= this.lastEpoch) {
+            this.epochOffset += this.lastEpoch;
+        }
+        this.lastEpoch = epoch.epoch;
+        this.lossHistory.push({ ...epoch, epoch: this.epochOffset + epoch.epoch });
+        decimate(this.lossHistory);
+        this.scheduleDraw();
+    }
+
+    /**
+     * Wire to Trainer.onStatsUpdate
+     */
+    recordStats(stats: TrainingStats) {
+        const lastSamples = this.sampleHistory[this.sampleHistory.length - 1];
+        if (!lastSamples || lastSamples.samples !== stats.totalSamples) {
+            this.sampleHistory.push({
+                seconds: (performance.now() - this.startTime) / 1000,
+                samples: stats.totalSamples
+            });
+            decimate(this.sampleHistory);
+        }
+        this.scheduleDraw();
+    }
+
+    /**
+     * Wire to Game.onGameOver
+     */
+    recordScore(player: EpisodePlayer, score: number) {
+        this.scoreHistory[player].push(score);
+        this.scheduleDraw();
+    }
+
+    private scheduleDraw() {
+        if (this.drawPending) return;
+        this.drawPending = true;
+        setTimeout(() => {
+            this.drawPending = false;
+            this.draw();
+        }, DRAW_INTERVAL_MS);
+    }
+
+    draw() {
+        const withValidation = this.lossHistory.filter(point => point.validationLoss !== null);
+        this.lossChart.setSeries([
+            {
+                label: 'Training loss',
+                color: '#3498db',
+                values: this.lossHistory.map(point => point.loss),
+                x: this.lossHistory.map(point => point.epoch)
+            },
+            {
+                label: 'Validation loss',
+                color: '#e67e22',
+                values: withValidation.map(point => point.validationLoss!),
+                x: withValidation.map(point => point.epoch)
+            }
+        ]);
+        this.scoreChart.setSeries([
+            { label: 'Human', color: '#27ae60', values: this.scoreHistory.human },
+            { label: 'AI', color: '#8e44ad', values: this.scoreHistory.ai }
+        ]);
+        this.sampleChart.setSeries([{
+            label: 'Samples',
+            color: '#2c3e50',
+            values: this.sampleHistory.map(point => point.samples),
+            x: this.sampleHistory.map(point => point.seconds)
+        }]);
+    }
+
+    exportLoss() {
+        const rows = this.lossHistory.map(point => [point.epoch, point.loss, point.validationLoss ?? '']);
+        downloadCSV('loss.csv', ['epoch', 'loss', 'validation_loss'], rows);
+    }
+
+    exportScores() {
+        const rows = (['human', 'ai'] as EpisodePlayer[]).flatMap(player =>
+            this.scoreHistory[player].map((score, i) => [player, i + 1, score])
+        );
+        downloadCSV('scores.csv', ['player', 'episode', 'score'], rows);
+    }
+
+    exportSamples() {
+        const rows = this.sampleHistory.map(point => [point.seconds.toFixed(2), point.samples]);
+        downloadCSV('samples.csv', ['seconds', 'samples'], rows);
+    }
+}
+
+/**
+ * Halve a history that has outgrown MAX_POINTS, keeping its first and latest points
+ */
+function decimate<T>(history: T[]) {
+    if (history.length <= MAX_POINTS) return;
+    const latest = history[history.length - 1];
+    const kept = history.filter((_, i) => i % 2 === 0);
+    if (kept[kept.length - 1] !== latest) kept.push(latest);
+    history.splice(0, history.length, ...kept);
+}
+
+function downloadCSV(filename: string, header: string[], rows: (string | number)[][]) {
+    const lines = [header, ...rows].map(row => row.join(','));
+    downloadFile(filename, lines.join('\n') + '\n', 'text/csv');
+}
@@ -0,0 +1,140 @@
+/**
+ * Headless training and evaluation, for running sweeps without a browser:
+ * collect heuristic samples by simulating the game, train a network,
+ * evaluate it over a seed suite, and write the model file and a metrics report.
+ * The model file can be imported in the Model Library.
+ *
+ *   npm run cli -- --hidden 16,8 --epochs 500 --out model.json --report report.json
+ */
+import { writeFile } from "node:fs/promises";
+import { parseCliOptions, USAGE } from "./cliOptions";
+import { evaluateNetwork, seedSuite } from "./evaluation";
+import { Game } from "./game";
+import { NeuralNetwork } from "./neuralNetwork";
+import { physicsPresets } from "./physics";
+import { Random } from "./random";
+import { Trainer } from "./trainer";
+
+// Epochs between progress lines
+const EPOCHS_PER_LOG = 10;
+
+async function main() {
+    const options = parseCliOptions(process.argv.slice(2));
+    if (options.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const {
+        episodes, maxFrames, difficulty, inputFeatures, hiddenLayers, hiddenActivation, outputActivation,
+        learningRate, epochs, seed, evalSeeds
+    } = options;
+    const preset = physicsPresets[options.physics];
+
+    const layerSizes = [inputFeatures.length, ...hiddenLayers, 1];
+    const nn = new NeuralNetwork(
+        layerSizes,
+        new Random(seed),
+        [...hiddenLayers.map(() => hiddenActivation), outputActivation],
+        inputFeatures
+    );
+    nn.setOptimizer(options.optimizer);
+    nn.setLoss(options.loss);
+
+    const config = { difficulty, physics: { ...preset.physics } };
+    const started = Date.now();
+
+    // Collect: fly the heuristic and label every state it sees
+    const trainer = new Trainer(nn, new Random(seed));
+    trainer.earlyStopping = options.earlyStopping;
+    const game = new Game(config, new Random(seed));
+    game.onStateCapture = (state) => trainer.collectFromGameState(state);
+    const collectionScores: number[] = [];
+    for (let episode = 0; episode < episodes; episode++) {
+        // A new pipe sequence each episode
+        game.random.setSeed(seed + episode);
+        game.start();
+        while (game.isPlaying() && game.frameCount < maxFrames) {
+            if (trainer.calculateOptimalAction(game.getGameState())) game.flap();
+            game.update();
+        }
+        collectionScores.push(game.score);
+    }
+    const collected = trainer.getStats();
+    console.log(`Collected ${collected.totalSamples} samples (${collected.validationSamples} for validation) from ${episodes} episodes`);
+
+    // Train
+    trainer.resetEarlyStopping();
+    let stats = trainer.getStats();
+    while (stats.trainedEpochs < epochs && !stats.stoppedEarly) {
+        trainer.train(learningRate, Math.min(EPOCHS_PER_LOG, epochs - stats.trainedEpochs));
+        stats = trainer.getStats();
+        if (stats.trainedEpochs === 0) {
+            throw new Error('Not enough samples to train on; collect more episodes');
+        }
+        const validation = stats.validation ? `, validation ${stats.validation.loss.toFixed(4)}` : '';
+        console.log(`Epoch ${stats.trainedEpochs}: loss ${stats.currentLoss.toFixed(4)}${validation}`);
+    }
+    if (stats.stoppedEarly) {
+        console.log(`Stopped early at epoch ${stats.trainedEpochs}`);
+    }
+
+    // Evaluate on pipe sequences the network wasn't trained on
+    const evaluationSeeds = seedSuite(evalSeeds, seed + episodes);
+    const evaluation = evaluateNetwork(nn, { seeds: evaluationSeeds, maxFrames, config });
+    console.log(`Evaluation over seeds ${evaluationSeeds[0]}–${evaluationSeeds[evaluationSeeds.length - 1]}: mean score ${evaluation.score.mean.toFixed(2)}, ` +
+        `median ${evaluation.score.median}, min ${evaluation.score.min}, max ${evaluation.score.max}`);
+
+    const model = nn.toModelFile({
+        learningRate,
+        trainedEpochs: stats.trainedEpochs,
+        totalSamples: stats.totalSamples,
+        bestScore: evaluation.score.max,
+        seed,
+        savedAt: new Date().toISOString()
+    }, game.getNormalization(), game.physics);
+
+    const report = {
+        settings: {
+            episodes,
+            maxFrames,
+            difficulty,
+            physics: preset.name,
+            inputFeatures,
+            layerSizes,
+            activations: model.architecture.activations,
+            optimizer: model.training.optimizer,
+            loss: model.training.loss,
+            learningRate,
+            epochs,
+            earlyStopping: trainer.earlyStopping,
+            seed,
+            evalSeeds
+        },
+        collection: {
+            totalSamples: collected.totalSamples,
+            validationSamples: collected.validationSamples,
+            heuristicScores: collectionScores
+        },
+        training: {
+            trainedEpochs: stats.trainedEpochs,
+            finalLoss: stats.currentLoss,
+            validation: stats.validation,
+            bestValidationLoss: stats.bestValidationLoss,
+            stoppedEarly: stats.stoppedEarly
+        },
+        evaluation,
+        checksum: model.checksum,
+        durationSeconds: (Date.now() - started) / 1000
+    };
+
+    await writeFile(options.out, JSON.stringify(model, null, 2));
+    await writeFile(options.report, JSON.stringify(report, null, 2));
+    console.log(`Wrote ${options.out} and ${options.report}`);
+}
+
+main().catch((e: Error) => {
+    console.error(`Error: ${e.message}`);
+    console.error('Run with --help for usage');
+    process.exitCode = 1;
+});
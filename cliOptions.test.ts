@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseCliOptions } from "./cliOptions";
+import { DEFAULT_FEATURES } from "./features";
+
+describe('parseCliOptions', () => {
+    it('fills in the defaults', () => {
+        const options = parseCliOptions([]);
+        expect(options).toMatchObject({
+            episodes: 20,
+            maxFrames: 5000,
+            difficulty: 'normal',
+            physics: 'classic',
+            inputFeatures: DEFAULT_FEATURES,
+            hiddenLayers: [8],
+            optimizer: 'adam',
+            loss: 'bce',
+            learningRate: 0.01,
+            earlyStopping: true,
+            evalSeeds: 20,
+            help: false
+        });
+    });
+
+    it('parses lists, numbers and flags', () => {
+        const options = parseCliOptions([
+            '--hidden', '16, 8', '--features', 'birdY,pipeGapY', '--learning-rate', '0.05',
+            '--physics', 'hardcore', '--no-early-stopping', '--loss', 'mse', '--output-activation', 'linear'
+        ]);
+        expect(options.hiddenLayers).toEqual([16, 8]);
+        expect(options.inputFeatures).toEqual(['birdY', 'pipeGapY']);
+        expect(options.learningRate).toBe(0.05);
+        expect(options.physics).toBe('hardcore');
+        expect(options.earlyStopping).toBe(false);
+        expect(options.outputActivation).toBe('linear');
+    });
+
+    it('rejects malformed numbers', () => {
+        expect(() => parseCliOptions(['--episodes', '2.5'])).toThrow(/--episodes must be an integer/);
+        expect(() => parseCliOptions(['--learning-rate', 'fast'])).toThrow(/--learning-rate must be a number/);
+        expect(() => parseCliOptions(['--hidden', '8,x'])).toThrow(/--hidden must be an integer/);
+    });
+
+    it('rejects unknown and inherited names', () => {
+        expect(() => parseCliOptions(['--physics', 'constructor'])).toThrow(/Unknown physics preset/);
+        expect(() => parseCliOptions(['--optimizer', 'toString'])).toThrow(/Unknown optimizer/);
+        expect(() => parseCliOptions(['--features', 'birdY,wind'])).toThrow(/wind/);
+        expect(() => parseCliOptions(['--loss', 'hinge'])).toThrow(/Unknown loss function/);
+    });
+
+    it('rejects cross-entropy without a sigmoid output', () => {
+        expect(() => parseCliOptions(['--output-activation', 'linear'])).toThrow(/sigmoid output/);
+    });
+
+    it('rejects unknown options', () => {
+        expect(() => parseCliOptions(['--epoch', '10'])).toThrow();
+    });
+});
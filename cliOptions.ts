@@ -0,0 +1,134 @@
+import { parseArgs } from "node:util";
+import { ActivationName, getActivation } from "./activations";
+import { DifficultyName, getDifficulty } from "./difficulty";
+import { DEFAULT_FEATURES, FeatureName, getFeature } from "./features";
+import { getLoss, lossActivationError, LossName } from "./losses";
+import { OptimizerName, optimizers } from "./optimizers";
+import { physicsPresets, PhysicsPresetName } from "./physics";
+
+export const USAGE = `Usage: npm run cli -- [options]
+
+Data collection
+  --episodes <n>           Heuristic episodes to collect samples from (default 20)
+  --max-frames <n>         Frame cap per episode, collecting and evaluating (default 5000)
+  --difficulty <name>      easy, normal, hard or curriculum (default normal)
+  --physics <preset>       classic, floaty or hardcore (default classic)
+
+Network and training
+  --features <a,b,...>     Input features (default ${DEFAULT_FEATURES.join(',')})
+  --hidden <n,n,...>       Hidden layer sizes (default 8)
+  --activation <name>      Hidden activation (default sigmoid)
+  --output-activation <n>  Output activation (default sigmoid)
+  --optimizer <name>       sgd, momentum, rmsprop or adam (default adam)
+  --loss <name>            mse or bce; bce needs a sigmoid output (default bce)
+  --learning-rate <x>      Learning rate (default 0.01)
+  --epochs <n>             Maximum epochs (default 200)
+  --no-early-stopping      Train for every epoch regardless of validation loss
+  --seed <n>               Seed for collection, weights and shuffling (default 1)
+
+Evaluation and output
+  --eval-seeds <n>         Evaluate over n seeds, following the collection seeds (default 20)
+  --out <file>             Model file to write (default model.json)
+  --report <file>          Metrics report to write (default report.json)
+  --help                   Show this message
+`;
+
+export type CliOptions = {
+    episodes: number;
+    maxFrames: number;
+    difficulty: DifficultyName;
+    physics: PhysicsPresetName;
+    inputFeatures: FeatureName[];
+    hiddenLayers: number[];
+    hiddenActivation: ActivationName;
+    outputActivation: ActivationName;
+    optimizer: OptimizerName;
+    loss: LossName;
+    learningRate: number;
+    epochs: number;
+    earlyStopping: boolean;
+    seed: number;
+    evalSeeds: number;
+    out: string;
+    report: string;
+    help: boolean;
+};
+
+function parseList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function parseNumber(name: string, value: string, integer = false): number {
+    const number = Number(value);
+    if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+        throw new Error(`--${name} must be ${integer ? 'an integer' : 'a number'}, got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Parse and check command-line arguments, filling in defaults
+ * @param {string[]} args - Arguments after the script name
+ * @throws {Error} - For unknown options, malformed numbers and unknown names
+ */
+export function parseCliOptions(args: string[]): CliOptions {
+    const { values } = parseArgs({
+        args,
+        options: {
+            'episodes': { type: 'string', default: '20' },
+            'max-frames': { type: 'string', default: '5000' },
+            'difficulty': { type: 'string', default: 'normal' },
+            'physics': { type: 'string', default: 'classic' },
+            'features': { type: 'string', default: DEFAULT_FEATURES.join(',') },
+            'hidden': { type: 'string', default: '8' },
+            'activation': { type: 'string', default: 'sigmoid' },
+            'output-activation': { type: 'string', default: 'sigmoid' },
+            'optimizer': { type: 'string', default: 'adam' },
+            'loss': { type: 'string', default: 'bce' },
+            'learning-rate': { type: 'string', default: '0.01' },
+            'epochs': { type: 'string', default: '200' },
+            'no-early-stopping': { type: 'boolean', default: false },
+            'seed': { type: 'string', default: '1' },
+            'eval-seeds': { type: 'string', default: '20' },
+            'out': { type: 'string', default: 'model.json' },
+            'report': { type: 'string', default: 'report.json' },
+            'help': { type: 'boolean', default: false }
+        }
+    });
+
+    // Unknown names throw with the registry's message
+    if (!Object.hasOwn(physicsPresets, values['physics'])) {
+        throw new Error(`Unknown physics preset: ${values['physics']}`);
+    }
+    if (!Object.hasOwn(optimizers, values['optimizer'])) {
+        throw new Error(`Unknown optimizer: ${values['optimizer']}`);
+    }
+    const outputActivation = getActivation(values['output-activation']).name;
+    const loss = getLoss(values['loss']).name;
+    // e.g. bce without a sigmoid output
+    const lossProblem = lossActivationError(loss, outputActivation);
+    if (lossProblem) {
+        throw new Error(lossProblem);
+    }
+
+    return {
+        episodes: parseNumber('episodes', values['episodes'], true),
+        maxFrames: parseNumber('max-frames', values['max-frames'], true),
+        difficulty: getDifficulty(values['difficulty']).name,
+        physics: values['physics'] as PhysicsPresetName,
+        inputFeatures: parseList(values['features']).map(name => getFeature(name).name),
+        hiddenLayers: parseList(values['hidden']).map(size => parseNumber('hidden', size, true)),
+        hiddenActivation: getActivation(values['activation']).name,
+        outputActivation,
+        optimizer: values['optimizer'] as OptimizerName,
+        loss,
+        learningRate: parseNumber('learning-rate', values['learning-rate']),
+        epochs: parseNumber('epochs', values['epochs'], true),
+        earlyStopping: !values['no-early-stopping'],
+        seed: parseNumber('seed', values['seed'], true),
+        evalSeeds: parseNumber('eval-seeds', values['eval-seeds'], true),
+        out: values['out'],
+        report: values['report'],
+        help: values['help']
+    };
+}
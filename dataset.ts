@@ -0,0 +1,87 @@
+import { DifficultyName, difficulties } from "./difficulty";
+import { FeatureName, features } from "./features";
+import { TrainingSample } from "./neuralNetwork";
+import { PhysicsConfig, physicsError } from "./physics";
+
+export const DATASET_FORMAT = 'flappy-nn-dataset';
+export const DATASET_FORMAT_VERSION = 1;
+
+/**
+ * Collected training samples, with the inputs they encode and the game they came from
+ */
+export type Dataset = {
+    format: typeof DATASET_FORMAT;
+    version: number;
+    inputFeatures: FeatureName[];
+    physics: PhysicsConfig;
+    difficulty: DifficultyName;
+    trainingData: TrainingSample[];
+    validationData: TrainingSample[];
+    savedAt: string;
+};
+
+/**
+ * Thrown for dataset files that are malformed or from a newer version of the app
+ */
+export class DatasetFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DatasetFormatError';
+    }
+}
+
+export function createDataset(dataset: Omit<Dataset, 'format' | 'version' | 'savedAt'>): Dataset {
+    return {
+        format: DATASET_FORMAT,
+        version: DATASET_FORMAT_VERSION,
+        ...dataset,
+        savedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Parse and check a dataset file
+ * @throws {DatasetFormatError} - If the file is malformed or from a newer version
+ */
+export function parseDatasetFile(json: string): Dataset {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new DatasetFormatError(`Dataset file is not valid JSON: ${(e as Error).message}`);
+    }
+
+    if (!data || data.format !== DATASET_FORMAT) {
+        throw new DatasetFormatError(`Not a dataset file (expected format "${DATASET_FORMAT}")`);
+    }
+    if (!Number.isInteger(data.version) || data.version > DATASET_FORMAT_VERSION) {
+        throw new DatasetFormatError(`Unsupported dataset version: ${data.version}`);
+    }
+    if (!Array.isArray(data.inputFeatures) || data.inputFeatures.length === 0 ||
+        data.inputFeatures.some((name: unknown) => typeof name !== 'string' || !Object.hasOwn(features, name))) {
+        throw new DatasetFormatError('inputFeatures must list known input features');
+    }
+    const physicsProblem = physicsError(data.physics);
+    if (physicsProblem) {
+        throw new DatasetFormatError(`Invalid dataset physics: ${physicsProblem}`);
+    }
+    if (!(typeof data.difficulty === 'string' && Object.hasOwn(difficulties, data.difficulty))) {
+        throw new DatasetFormatError(`Unknown dataset difficulty "${data.difficulty}"`);
+    }
+
+    const inputSize = data.inputFeatures.length;
+    for (const key of ['trainingData', 'validationData']) {
+        const samples = data[key];
+        if (!Array.isArray(samples) || samples.some((sample: any) => !isSample(sample, inputSize))) {
+            throw new DatasetFormatError(`${key} must be samples with ${inputSize} inputs and one target`);
+        }
+    }
+
+    return data as Dataset;
+}
+
+function isSample(sample: any, inputSize: number): boolean {
+    return Array.isArray(sample?.inputs) && sample.inputs.length === inputSize &&
+        sample.inputs.every(Number.isFinite) &&
+        Array.isArray(sample.target) && sample.target.length === 1 && Number.isFinite(sample.target[0]);
+}
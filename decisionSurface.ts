@@ -0,0 +1,179 @@
+import { lerpColor } from "./colors";
+import { FeatureName, features } from "./features";
+import { GameState } from "./game";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Random } from "./random";
+
+type Cell = {
+    // Flap preference in [0, 1]: the flap probability, or a squashed Q-value difference
+    output: number;
+    // The heuristic's label for the same state
+    heuristic: number;
+};
+
+/**
+ * Decision-surface panel: sweeps two inputs over a grid, holding the others at
+ * their live values, and colours each cell by how strongly the network wants to flap.
+ * The heuristic's decision boundary and the bird's current state are drawn on top.
+ */
+export class DecisionSurface {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private xSelect: HTMLSelectElement;
+    private ySelect: HTMLSelectElement;
+    private status: HTMLElement;
+
+    // Cells along each axis, and the minimum time between re-evaluating the grid
+    public resolution = 40;
+    public refreshMs = 500;
+    private xFeature: FeatureName = 'birdY';
+    private yFeature: FeatureName = 'pipeGapY';
+    private cells: Cell[][] | null = null;
+    private lastRefresh = -Infinity;
+    // Most recent live state, kept while the game is between episodes
+    private liveState: GameState = null;
+    private colors = {
+        idle: '#3498db',
+        flap: '#e67e22',
+        boundary: '#2c3e50',
+        bird: '#ffffff'
+    };
+
+    // Labels a state the way the trainer does
+    private heuristic: (state: GameState) => number;
+
+    constructor(canvas: HTMLCanvasElement, heuristic: (state: GameState) => number) {
+        this.canvas = canvas;
+        this.ctx = canvas.getContext('2d')!;
+        this.heuristic = heuristic;
+
+        this.xSelect = document.getElementById('surfaceXSelect') as HTMLSelectElement;
+        this.ySelect = document.getElementById('surfaceYSelect') as HTMLSelectElement;
+        this.status = document.getElementById('surfaceStatus') as HTMLElement;
+
+        for (const select of [this.xSelect, this.ySelect]) {
+            for (const feature of Object.values(features)) {
+                const option = document.createElement('option');
+                option.value = feature.name;
+                option.textContent = feature.description;
+                select.appendChild(option);
+            }
+        }
+        this.xSelect.value = this.xFeature;
+        this.ySelect.value = this.yFeature;
+        this.xSelect.addEventListener('change', () => {
+            this.xFeature = this.xSelect.value as FeatureName;
+            this.cells = null;
+        });
+        this.ySelect.addEventListener('change', () => {
+            this.yFeature = this.ySelect.value as FeatureName;
+            this.cells = null;
+        });
+    }
+
+    /**
+     * Redraw with the live state, re-evaluating the network once refreshMs has passed.
+     * Call once per drawn frame.
+     */
+    update(nn: NeuralNetwork, state: GameState) {
+        if (state) this.liveState = state;
+        const now = performance.now();
+        if (this.liveState && (this.cells === null || now - this.lastRefresh >= this.refreshMs)) {
+            this.cells = this.evaluate(nn, this.liveState);
+            this.lastRefresh = now;
+
+            const unused = [this.xFeature, this.yFeature].filter(name => !nn.inputFeatures.includes(name));
+            this.status.textContent = unused.length > 0
+                ? `Not a network input, so the surface is flat along it: ${unused.map(name => features[name].description).join(', ')}`
+                : '';
+        }
+        this.draw();
+    }
+
+    /**
+     * Network output and heuristic label at each grid cell's centre
+     */
+    private evaluate(nn: NeuralNetwork, live: NonNullable<GameState>): Cell[][] {
+        // A separate copy, so the sweep doesn't overwrite the activations the visualizer shows
+        const probe = new NeuralNetwork(nn.layerSizes, new Random(0), nn.activations, nn.inputFeatures);
+        const { weights, biases } = nn.getWeights();
+        probe.setWeights(weights, biases);
+
+        const cells: Cell[][] = [];
+        for (let row = 0; row < this.resolution; row++) {
+            cells.push([]);
+            for (let col = 0; col < this.resolution; col++) {
+                const state = {
+                    ...live,
+                    [this.xFeature]: (col + 0.5) / this.resolution,
+                    [this.yFeature]: (row + 0.5) / this.resolution
+                };
+                const output = probe.forwardPass(probe.stateInputs(state));
+                cells[row].push({
+                    output: output.length === 2 ? 0.5 + 0.5 * Math.tanh(output[1] - output[0]) : output[0],
+                    heuristic: this.heuristic(state)
+                });
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * x runs left to right and y top to bottom, as on the game canvas
+     */
+    private draw() {
+        const ctx = this.ctx;
+        const { width, height } = this.canvas;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        if (!this.cells) return;
+
+        const cellWidth = width / this.resolution;
+        const cellHeight = height / this.resolution;
+
+        this.cells.forEach((row, r) => row.forEach((cell, c) => {
+            ctx.fillStyle = lerpColor(this.colors.idle, this.colors.flap, Math.max(0, Math.min(1, cell.output)));
+            // Overlap by a pixel so no seams show between cells
+            ctx.fillRect(c * cellWidth, r * cellHeight, cellWidth + 1, cellHeight + 1);
+        }));
+
+        // Heuristic boundary: edges between cells it labels differently
+        ctx.strokeStyle = this.colors.boundary;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        this.cells.forEach((row, r) => row.forEach((cell, c) => {
+            const right = row[c + 1];
+            if (right && right.heuristic !== cell.heuristic) {
+                ctx.moveTo((c + 1) * cellWidth, r * cellHeight);
+                ctx.lineTo((c + 1) * cellWidth, (r + 1) * cellHeight);
+            }
+            const below = this.cells![r + 1]?.[c];
+            if (below && below.heuristic !== cell.heuristic) {
+                ctx.moveTo(c * cellWidth, (r + 1) * cellHeight);
+                ctx.lineTo((c + 1) * cellWidth, (r + 1) * cellHeight);
+            }
+        }));
+        ctx.stroke();
+
+        // Where the bird is now
+        if (this.liveState) {
+            const x = this.liveState[this.xFeature] * width;
+            const y = this.liveState[this.yFeature] * height;
+            ctx.fillStyle = this.colors.bird;
+            ctx.strokeStyle = this.colors.boundary;
+            ctx.lineWidth = 1.5;
+            ctx.beginPath();
+            ctx.arc(x, y, 5, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        }
+
+        // Axis names
+        ctx.fillStyle = '#ffffff';
+        ctx.font = '10px Outfit';
+        ctx.textAlign = 'right';
+        ctx.fillText(`${features[this.xFeature].label} →`, width - 4, height - 4);
+        ctx.textAlign = 'left';
+        ctx.fillText(`${features[this.yFeature].label} ↓`, 4, 12);
+    }
+}
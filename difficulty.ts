@@ -0,0 +1,112 @@
+import { PhysicsConfig } from "./physics";
+
+export type DifficultyName = 'easy' | 'normal' | 'hard' | 'curriculum';
+
+/**
+ * Pipe settings in effect at a given moment
+ */
+export type DifficultyLevel = {
+    // Curriculum stage, 0 for fixed profiles
+    stage: number;
+    pipeSpeed: number;
+    gapHeight: number;
+    // Frames between pipes, varied by up to ±spawnJitter
+    spawnInterval: number;
+    spawnJitter: number;
+    // Chance that a new pipe moves up and down, and how far and how fast
+    oscillationChance: number;
+    oscillationAmplitude: number;
+    oscillationSpeed: number;
+};
+
+export interface DifficultyProfile {
+    name: DifficultyName;
+    label: string;
+    // Gap height and spawn interval are scaled from the physics' base values
+    levelFor: (score: number, physics: PhysicsConfig) => DifficultyLevel;
+}
+
+// The settings the game has always used, with the gap and spacing set by physics
+function normal(physics: PhysicsConfig): DifficultyLevel {
+    return {
+        stage: 0,
+        pipeSpeed: 3,
+        gapHeight: physics.gapHeight,
+        spawnInterval: physics.spawnInterval,
+        spawnJitter: 0,
+        oscillationChance: 0,
+        oscillationAmplitude: 0,
+        oscillationSpeed: 0
+    };
+}
+
+// Points per curriculum stage
+const CURRICULUM_STAGE_SCORE = 5;
+
+export const difficulties: Record<DifficultyName, DifficultyProfile> = {
+    easy: {
+        name: 'easy',
+        label: 'Easy',
+        levelFor: (_score, physics) => ({
+            ...normal(physics),
+            pipeSpeed: 2.5,
+            gapHeight: physics.gapHeight * 1.2,
+            spawnInterval: Math.round(physics.spawnInterval * 1.1)
+        })
+    },
+    normal: {
+        name: 'normal',
+        label: 'Normal',
+        levelFor: (_score, physics) => normal(physics)
+    },
+    hard: {
+        name: 'hard',
+        label: 'Hard',
+        levelFor: (_score, physics) => ({
+            ...normal(physics),
+            pipeSpeed: 4,
+            gapHeight: physics.gapHeight * 5 / 6,
+            spawnInterval: Math.round(physics.spawnInterval * 0.8),
+            spawnJitter: 15,
+            oscillationChance: 0.3,
+            oscillationAmplitude: 40,
+            oscillationSpeed: 0.04
+        })
+    },
+    curriculum: {
+        name: 'curriculum',
+        label: 'Curriculum',
+        // Starts at normal and gets harder every few points, up to a ceiling
+        levelFor: (score, physics) => {
+            const stage = Math.floor(score / CURRICULUM_STAGE_SCORE);
+            return {
+                stage,
+                pipeSpeed: Math.min(6, 3 + 0.3 * stage),
+                gapHeight: Math.max(physics.gapHeight * 2 / 3, physics.gapHeight - 5 * stage),
+                spawnInterval: Math.max(Math.round(physics.spawnInterval * 0.7), physics.spawnInterval - 3 * stage),
+                spawnJitter: Math.min(20, 4 * stage),
+                oscillationChance: Math.min(0.5, 0.1 * Math.max(0, stage - 1)),
+                oscillationAmplitude: Math.min(60, 10 * stage),
+                oscillationSpeed: 0.03 + 0.005 * Math.min(stage, 6)
+            };
+        }
+    }
+};
+
+export function getDifficulty(name: string): DifficultyProfile {
+    if (!Object.hasOwn(difficulties, name)) {
+        throw new Error(`Unknown difficulty: ${name}`);
+    }
+    return difficulties[name as DifficultyName];
+}
+
+/**
+ * One-line summary for display, e.g. "Curriculum · stage 2 · speed 3.6 · gap 140"
+ */
+export function describeDifficulty(profile: DifficultyProfile, level: DifficultyLevel): string {
+    const parts = [profile.label];
+    if (profile.name === 'curriculum') parts.push(`stage ${level.stage}`);
+    parts.push(`speed ${level.pipeSpeed.toFixed(1)}`, `gap ${Math.round(level.gapHeight)}`);
+    if (level.oscillationChance > 0) parts.push('moving pipes');
+    return parts.join(' · ');
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { evaluateEpisode, evaluateNetwork, seedSuite, summarize, summarizeEpisodes } from "./evaluation";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Random } from "./random";
+
+function network(seed: number) {
+    return new NeuralNetwork([4, 8, 1], new Random(seed));
+}
+
+describe('seedSuite', () => {
+    it('counts up from the first seed', () => {
+        expect(seedSuite(3)).toEqual([1, 2, 3]);
+        expect(seedSuite(3, 21)).toEqual([21, 22, 23]);
+        expect(seedSuite(0)).toEqual([]);
+    });
+});
+
+describe('summarize', () => {
+    it('reports mean, median, range and population deviation', () => {
+        expect(summarize([4, 1, 3, 2])).toEqual({ mean: 2.5, median: 2.5, min: 1, max: 4, std: Math.sqrt(1.25) });
+        expect(summarize([5, 1, 3]).median).toBe(3);
+    });
+
+    it('is all zero for no values', () => {
+        expect(summarize([])).toEqual({ mean: 0, median: 0, min: 0, max: 0, std: 0 });
+    });
+});
+
+describe('evaluateNetwork', () => {
+    const options = { seeds: seedSuite(5), maxFrames: 500, config: {} };
+
+    it('gives the same report for the same network and seeds', () => {
+        const first = evaluateNetwork(network(1), options);
+        const second = evaluateNetwork(network(1), options);
+        expect(second.episodes).toEqual(first.episodes);
+        expect(first.seeds).toEqual(options.seeds);
+    });
+
+    it('matches evaluating each episode separately', () => {
+        const nn = network(2);
+        const episodes = options.seeds.map(seed => evaluateEpisode(nn, seed, options));
+        expect(evaluateNetwork(nn, options)).toEqual(summarizeEpisodes(episodes, options));
+    });
+
+    it('counts every episode under one death cause', () => {
+        const report = evaluateNetwork(network(3), options);
+        const total = Object.values(report.deathCauses).reduce((sum, count) => sum + count, 0);
+        expect(total).toBe(options.seeds.length);
+        expect(report.frames.max).toBeLessThanOrEqual(options.maxFrames);
+    });
+});
@@ -0,0 +1,120 @@
+import { DeathCause, Game, GameConfig } from "./game";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Random } from "./random";
+
+export type EvaluationOptions = {
+    // One episode per seed, in order
+    seeds: number[];
+    // Episodes still going after this many frames end as a timeout
+    maxFrames: number;
+    // Game to evaluate in; defaults to a standard game
+    config: Partial<GameConfig>;
+};
+
+export type SummaryStats = {
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+    std: number;
+};
+
+export type EpisodeResult = {
+    seed: number;
+    score: number;
+    frames: number;
+    deathCause: DeathCause;
+};
+
+export type EvaluationReport = {
+    episodes: EpisodeResult[];
+    score: SummaryStats;
+    frames: SummaryStats;
+    deathCauses: Record<DeathCause, number>;
+    seeds: number[];
+    maxFrames: number;
+};
+
+/**
+ * Seeds 1..count: the standard suite, so reports from different sessions are comparable
+ */
+export function seedSuite(count: number, first = 1): number[] {
+    return Array.from({ length: count }, (_, i) => first + i);
+}
+
+export function defaultEvaluationOptions(): EvaluationOptions {
+    return { seeds: seedSuite(20), maxFrames: 10000, config: {} };
+}
+
+/**
+ * Fly the network greedily for one episode per seed and summarise the results.
+ * Runs headless and is deterministic for a given network, seed list and config.
+ */
+export function evaluateNetwork(nn: NeuralNetwork, options: Partial<EvaluationOptions> = {}): EvaluationReport {
+    const resolved = { ...defaultEvaluationOptions(), ...options };
+    const episodes = resolved.seeds.map(seed => evaluateEpisode(nn, seed, resolved));
+    return summarizeEpisodes(episodes, resolved);
+}
+
+/**
+ * Fly the network greedily for one episode on one seed.
+ * Lets callers spread an evaluation out, e.g. to keep a page responsive.
+ */
+export function evaluateEpisode(
+    nn: NeuralNetwork,
+    seed: number,
+    options: Pick<EvaluationOptions, 'maxFrames' | 'config'>
+): EpisodeResult {
+    const game = new Game(options.config, new Random(seed));
+    game.start();
+    while (game.isPlaying()) {
+        if (game.frameCount >= options.maxFrames) {
+            game.gameOver();
+            break;
+        }
+        if (nn.predict(game.getGameState())) game.flap();
+        game.update();
+    }
+    const bird = game.birds[0];
+    return { seed, score: bird.score, frames: bird.framesAlive, deathCause: bird.deathCause ?? 'timeout' };
+}
+
+/**
+ * Report over the episodes of one network, in seed order
+ */
+export function summarizeEpisodes(
+    episodes: EpisodeResult[],
+    { seeds, maxFrames }: Pick<EvaluationOptions, 'seeds' | 'maxFrames'>
+): EvaluationReport {
+    const deathCauses: Record<DeathCause, number> = { ground: 0, ceiling: 0, pipe: 0, timeout: 0 };
+    for (const episode of episodes) deathCauses[episode.deathCause]++;
+
+    return {
+        episodes,
+        score: summarize(episodes.map(episode => episode.score)),
+        frames: summarize(episodes.map(episode => episode.frames)),
+        deathCauses,
+        seeds: [...seeds],
+        maxFrames
+    };
+}
+
+/**
+ * Mean, median, range and (population) standard deviation; all zero for no values
+ */
+export function summarize(values: number[]): SummaryStats {
+    if (values.length === 0) return { mean: 0, median: 0, min: 0, max: 0, std: 0 };
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+    return {
+        mean,
+        median: sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        std: Math.sqrt(variance)
+    };
+}
@@ -0,0 +1,195 @@
+import {
+    EpisodeResult,
+    evaluateEpisode,
+    EvaluationReport,
+    seedSuite,
+    summarizeEpisodes,
+    SummaryStats
+} from "./evaluation";
+import { GameConfig } from "./game";
+import { ModelStore, SavedModel } from "./modelStore";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Random } from "./random";
+
+const CURRENT = 'current';
+const NONE = 'none';
+
+// Time spent evaluating before yielding to the page
+const CHUNK_MS = 30;
+
+/**
+ * Evaluation panel: runs one or two networks over the same seed suite
+ * and shows their reports side by side
+ */
+export class EvaluationPanel {
+    private store: ModelStore;
+    private models: SavedModel[] = [];
+    private modelSelects: HTMLSelectElement[];
+    private seedCountInput: HTMLInputElement;
+    private maxFramesInput: HTMLInputElement;
+    private evaluateBtn: HTMLButtonElement;
+    private results: HTMLTableElement;
+    private status: HTMLElement;
+
+    // Provide the network being trained and the game setup to evaluate in
+    private getCurrentNetwork: () => { nn: NeuralNetwork, name: string };
+    private getConfig: () => GameConfig;
+
+    constructor(
+        store: ModelStore,
+        getCurrentNetwork: () => { nn: NeuralNetwork, name: string },
+        getConfig: () => GameConfig
+    ) {
+        this.store = store;
+        this.getCurrentNetwork = getCurrentNetwork;
+        this.getConfig = getConfig;
+
+        this.modelSelects = [
+            document.getElementById('evalModelA') as HTMLSelectElement,
+            document.getElementById('evalModelB') as HTMLSelectElement
+        ];
+        this.seedCountInput = document.getElementById('evalSeedCountInput') as HTMLInputElement;
+        this.maxFramesInput = document.getElementById('evalMaxFramesInput') as HTMLInputElement;
+        this.evaluateBtn = document.getElementById('evaluateBtn') as HTMLButtonElement;
+        this.results = document.getElementById('evalResults') as HTMLTableElement;
+        this.status = document.getElementById('evalStatus') as HTMLElement;
+
+        this.evaluateBtn.addEventListener('click', () => this.run());
+
+        this.refresh();
+    }
+
+    /**
+     * Reload the saved models that can be evaluated, keeping the current picks where possible
+     */
+    async refresh() {
+        try {
+            this.models = await this.store.list();
+        } catch (e) {
+            this.setStatus(`Model storage unavailable: ${(e as Error).message}`, true);
+            return;
+        }
+
+        this.modelSelects.forEach((select, i) => {
+            const previous = select.value || (i === 0 ? CURRENT : NONE);
+            const options = [
+                ...(i === 1 ? [this.option(NONE, '(none)')] : []),
+                this.option(CURRENT, 'Current network'),
+                ...this.models.map(saved => this.option(String(saved.id), saved.name))
+            ];
+            select.replaceChildren(...options);
+            select.value = options.some(option => option.value === previous) ? previous : options[0].value;
+        });
+    }
+
+    private run() {
+        const seedCount = parseInt(this.seedCountInput.value, 10);
+        const maxFrames = parseInt(this.maxFramesInput.value, 10);
+        if (!(seedCount > 0) || !(maxFrames > 0)) {
+            this.setStatus('Seeds and frame cap must be positive numbers', true);
+            return;
+        }
+
+        let contenders: { name: string, nn: NeuralNetwork }[];
+        try {
+            contenders = this.modelSelects
+                .map(select => select.value)
+                .filter(value => value !== NONE)
+                .map(value => this.network(value));
+        } catch (e) {
+            this.setStatus((e as Error).message, true);
+            return;
+        }
+
+        this.evaluateBtn.disabled = true;
+        const options = { seeds: seedSuite(seedCount), maxFrames, config: this.getConfig() };
+        const episodes: EpisodeResult[][] = contenders.map(() => []);
+        const total = contenders.length * seedCount;
+        let done = 0;
+
+        // A few episodes at a time, so the page, game and training progress stay live
+        const runChunk = () => {
+            const deadline = performance.now() + CHUNK_MS;
+            while (done < total && performance.now() < deadline) {
+                const contender = Math.floor(done / seedCount);
+                episodes[contender].push(evaluateEpisode(contenders[contender].nn, options.seeds[done % seedCount], options));
+                done++;
+            }
+            if (done < total) {
+                this.setStatus(`Evaluating… ${done} of ${total} episodes`);
+                setTimeout(runChunk, 0);
+                return;
+            }
+
+            const reports = episodes.map(results => summarizeEpisodes(results, options));
+            this.showReports(contenders.map(contender => contender.name), reports);
+            this.setStatus(`Seeds 1–${seedCount}, up to ${maxFrames} frames each`);
+            this.evaluateBtn.disabled = false;
+        };
+        this.setStatus(`Evaluating… 0 of ${total} episodes`);
+        setTimeout(runChunk, 0);
+    }
+
+    private network(value: string): { name: string, nn: NeuralNetwork } {
+        if (value === CURRENT) {
+            // Snapshot it: training may update the weights between chunks
+            const current = this.getCurrentNetwork();
+            const nn = new NeuralNetwork(current.nn.layerSizes, new Random());
+            nn.fromJSON(JSON.stringify(current.nn.toModelFile()));
+            return { name: current.name, nn };
+        }
+        const saved = this.models.find(model => String(model.id) === value);
+        if (!saved) throw new Error('That saved model no longer exists');
+        const nn = new NeuralNetwork(saved.model.architecture.layerSizes, new Random());
+        nn.fromJSON(JSON.stringify(saved.model));
+        return { name: saved.name, nn };
+    }
+
+    showReports(names: string[], reports: EvaluationReport[]) {
+        const stats = (label: string, pick: (report: EvaluationReport) => SummaryStats) =>
+            (['mean', 'median', 'min', 'max', 'std'] as (keyof SummaryStats)[]).map(key =>
+                this.row(`${label} ${key}`, reports.map(report => format(pick(report)[key])))
+            );
+        const deaths = (Object.keys(reports[0].deathCauses) as (keyof EvaluationReport['deathCauses'])[]).map(cause =>
+            this.row(`Deaths: ${cause}`, reports.map(report =>
+                `${report.deathCauses[cause]} (${Math.round(100 * report.deathCauses[cause] / report.episodes.length)}%)`
+            ))
+        );
+
+        this.results.replaceChildren(
+            this.row('', names, 'th'),
+            ...stats('Score', report => report.score),
+            ...stats('Frames', report => report.frames),
+            ...deaths
+        );
+    }
+
+    private row(label: string, values: string[], cell: 'th' | 'td' = 'td') {
+        const row = document.createElement('tr');
+        const heading = document.createElement('th');
+        heading.textContent = label;
+        row.appendChild(heading);
+        for (const value of values) {
+            const element = document.createElement(cell);
+            element.textContent = value;
+            row.appendChild(element);
+        }
+        return row;
+    }
+
+    private option(value: string, text: string) {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = text;
+        return option;
+    }
+
+    private setStatus(message: string, isError = false) {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+}
+
+function format(value: number) {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
@@ -0,0 +1,153 @@
+import { ActivationName } from "./activations";
+import { DEFAULT_FEATURES, FeatureName } from "./features";
+import { Bird, Game } from "./game";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Random } from "./random";
+
+export type GenerationStats = {
+    generation: number;
+    bestFitness: number;
+    meanFitness: number;
+    bestScore: number;
+};
+
+/**
+ * Neuroevolution: a population of networks, each flying its own bird
+ * through the same pipe sequence. When every bird has died the next
+ * generation is bred by selection, crossover and mutation.
+ */
+export class Evolution {
+    public networks: NeuralNetwork[] = [];
+    public generation = 0;
+    public history: GenerationStats[] = [];
+    public champion: NeuralNetwork | null = null;
+    public championFitness = 0;
+    public random: Random;
+
+    public populationSize: number;
+    public mutationRate = 0.1;
+    public mutationStrength = 0.5;
+    public eliteCount = 2;
+    public tournamentSize = 3;
+    public maxFrames = 10000;
+
+    // Callbacks
+    onGenerationComplete: ((stats: GenerationStats) => void) | null = null;
+
+    constructor(populationSize = 50, random: Random = new Random()) {
+        this.populationSize = populationSize;
+        this.random = random;
+    }
+
+    /**
+     * Create a fresh random population
+     */
+    initialize(
+        layerSizes: number[] = [4, 8, 1],
+        activations: ActivationName[] = [],
+        inputFeatures: FeatureName[] = DEFAULT_FEATURES
+    ) {
+        this.networks = [];
+        for (let i = 0; i < this.populationSize; i++) {
+            this.networks.push(new NeuralNetwork(layerSizes, this.random, activations, inputFeatures));
+        }
+        this.generation = 0;
+        this.history = [];
+        this.champion = null;
+        this.championFitness = 0;
+    }
+
+    /**
+     * Start one bird per network
+     */
+    startGeneration(game: Game) {
+        if (this.networks.length === 0) this.initialize();
+        game.start(this.networks.length);
+    }
+
+    /**
+     * Let every living bird's network decide whether to flap.
+     * Call once per frame before game.update().
+     */
+    step(game: Game) {
+        if (!game.isPlaying()) return;
+
+        if (game.frameCount >= this.maxFrames) {
+            game.gameOver();
+            return;
+        }
+
+        game.birds.forEach((bird, i) => {
+            if (!bird.alive) return;
+            if (this.networks[i].predict(game.getGameState(bird))) {
+                game.flap(i);
+            }
+        });
+    }
+
+    /**
+     * Network of the living bird that has survived longest, for display
+     */
+    leader(game: Game): NeuralNetwork | null {
+        const index = game.birds.findIndex(bird => bird.alive);
+        return index >= 0 ? this.networks[index] : this.champion;
+    }
+
+    fitness(bird: Bird) {
+        return bird.framesAlive + bird.score * 100;
+    }
+
+    /**
+     * Score the finished generation and breed the next one
+     */
+    nextGeneration(game: Game): GenerationStats {
+        const fitnesses = game.birds.map(bird => this.fitness(bird));
+        const ranked = this.networks
+            .map((network, i) => ({ network, fitness: fitnesses[i], score: game.birds[i].score }))
+            .sort((a, b) => b.fitness - a.fitness);
+
+        const stats: GenerationStats = {
+            generation: this.generation,
+            bestFitness: ranked[0].fitness,
+            meanFitness: fitnesses.reduce((sum, f) => sum + f, 0) / fitnesses.length,
+            bestScore: ranked[0].score
+        };
+        this.history.push(stats);
+
+        if (!this.champion || ranked[0].fitness > this.championFitness) {
+            this.champion = ranked[0].network.copy();
+            this.championFitness = ranked[0].fitness;
+        }
+
+        // Elites survive unchanged, the rest are offspring
+        const next: NeuralNetwork[] = [];
+        for (let i = 0; i < Math.min(this.eliteCount, ranked.length); i++) {
+            next.push(ranked[i].network.copy());
+        }
+        while (next.length < this.populationSize) {
+            const parentA = this.select(ranked);
+            const parentB = this.select(ranked);
+            const child = parentA.crossover(parentB);
+            child.mutate(this.mutationRate, this.mutationStrength);
+            next.push(child);
+        }
+
+        this.networks = next;
+        this.generation++;
+
+        if (this.onGenerationComplete) this.onGenerationComplete(stats);
+        return stats;
+    }
+
+    /**
+     * Tournament selection
+     */
+    select(ranked: { network: NeuralNetwork, fitness: number }[]): NeuralNetwork {
+        let best = ranked[this.random.int(ranked.length)];
+        for (let i = 1; i < this.tournamentSize; i++) {
+            const contender = ranked[this.random.int(ranked.length)];
+            if (contender.fitness > best.fitness) best = contender;
+        }
+        return best.network;
+    }
+}
@@ -0,0 +1,144 @@
+import type { Bird, Game, GameState, Normalization } from "./game";
+
+export type FeatureName =
+    | 'birdY'
+    | 'birdVelocity'
+    | 'pipeDistance'
+    | 'pipeGapY'
+    | 'gapTop'
+    | 'gapBottom'
+    | 'groundDistance'
+    | 'secondPipeDistance'
+    | 'secondPipeGapY'
+    | 'pipeSpeed';
+
+/**
+ * Everything a feature can be computed from
+ */
+export type FeatureContext = {
+    game: Game;
+    bird: Bird;
+    norm: Normalization;
+};
+
+export interface Feature {
+    name: FeatureName;
+    /** Short label for the network diagram */
+    label: string;
+    description: string;
+    /** Value scaled into roughly [0, 1] */
+    compute: (context: FeatureContext) => number;
+}
+
+/**
+ * Upcoming pipes the bird hasn't cleared yet, nearest first
+ */
+function upcomingPipes({ game, bird }: FeatureContext) {
+    return game.pipes.filter(pipe => pipe.x + pipe.width > bird.x);
+}
+
+export const features: Record<FeatureName, Feature> = {
+    birdY: {
+        name: 'birdY',
+        label: 'Bird Y',
+        description: 'Bird height',
+        compute: ({ bird, norm }) => bird.y / norm.height
+    },
+    birdVelocity: {
+        name: 'birdVelocity',
+        label: 'Velocity',
+        description: 'Vertical velocity',
+        compute: ({ bird, norm }) => (bird.velocity + norm.velocityOffset) / norm.velocityRange
+    },
+    pipeDistance: {
+        name: 'pipeDistance',
+        label: 'Dist',
+        description: 'Distance to the next pipe',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[0];
+            return pipe ? (pipe.x - context.bird.x) / context.norm.width : 1;
+        }
+    },
+    pipeGapY: {
+        name: 'pipeGapY',
+        label: 'Gap Y',
+        description: 'Next gap centre',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[0];
+            return pipe ? pipe.getGapCenter() / context.norm.height : 0.5;
+        }
+    },
+    gapTop: {
+        name: 'gapTop',
+        label: 'Gap Top',
+        description: 'Next gap top edge',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[0];
+            return pipe ? pipe.gapY / context.norm.height : 0.5;
+        }
+    },
+    gapBottom: {
+        name: 'gapBottom',
+        label: 'Gap Bot',
+        description: 'Next gap bottom edge',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[0];
+            return pipe ? (pipe.gapY + pipe.gapHeight) / context.norm.height : 0.5;
+        }
+    },
+    groundDistance: {
+        name: 'groundDistance',
+        label: 'Ground',
+        description: 'Distance to the ground',
+        compute: ({ game, bird, norm }) => (game.groundY - (bird.y + bird.height)) / norm.height
+    },
+    secondPipeDistance: {
+        name: 'secondPipeDistance',
+        label: 'Dist 2',
+        description: 'Distance to the pipe after next',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[1];
+            return pipe ? (pipe.x - context.bird.x) / context.norm.width : 1;
+        }
+    },
+    secondPipeGapY: {
+        name: 'secondPipeGapY',
+        label: 'Gap Y 2',
+        description: 'Gap centre of the pipe after next',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[1];
+            return pipe ? pipe.getGapCenter() / context.norm.height : 0.5;
+        }
+    },
+    pipeSpeed: {
+        name: 'pipeSpeed',
+        label: 'Speed',
+        description: 'Speed of the next pipe',
+        compute: (context) => {
+            const pipe = upcomingPipes(context)[0];
+            return pipe ? pipe.speed / context.norm.pipeSpeedRange : 0;
+        }
+    }
+};
+
+/**
+ * The original four inputs, used by networks that don't say otherwise
+ */
+export const DEFAULT_FEATURES: FeatureName[] = ['birdY', 'birdVelocity', 'pipeDistance', 'pipeGapY'];
+
+export function getFeature(name: string): Feature {
+    if (!Object.hasOwn(features, name)) {
+        throw new Error(`Unknown input feature: ${name}`);
+    }
+    return features[name as FeatureName];
+}
+
+/**
+ * Pick the given features out of a game state, in order, as network inputs
+ */
+export function encodeFeatures(gameState: GameState, featureNames: FeatureName[]): number[] {
+    if (!gameState) {
+        throw new Error('Invalid game state for encoding features');
+    }
+    return featureNames.map(name => gameState[name]);
+}
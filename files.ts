@@ -0,0 +1,19 @@
+/**
+ * Offer text content to the user as a file download
+ */
+export function downloadFile(filename: string, contents: string, type = 'application/json') {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Safe file name from free text, e.g. a model name
+ */
+export function toFileName(name: string, extension: string) {
+    const base = name.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'untitled';
+    return `${base}.${extension}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Simulation speed multiplier, or 'max' to simulate as fast as possible without drawing
+ */
+export type SimulationSpeed = 1 | 2 | 10 | 'max';
+
+export const SIMULATION_SPEEDS: SimulationSpeed[] = [1, 2, 10, 'max'];
+
+/**
+ * Runs simulation steps at a fixed rate, independent of how often frames are drawn.
+ * Call run() once per animation frame with the frame's timestamp.
+ */
+export class FixedTimestep {
+    // Game physics were tuned for 60 steps per second
+    public stepMs = 1000 / 60;
+    // At 'max', how long each frame may spend simulating before yielding to the browser
+    public maxFrameBudgetMs = 12;
+    // Backlog beyond this is dropped, so a stalled or hidden tab doesn't try to catch up all at once
+    public maxStepsPerFrame = 240;
+
+    private accumulator = 0;
+    private lastTime: number | null = null;
+
+    /**
+     * Run the steps that are due since the last call
+     * @param {number} now - Current time in milliseconds, e.g. the requestAnimationFrame timestamp
+     * @param {SimulationSpeed} speed - Steps per real-time step, or 'max'
+     * @param {Function} step - Advances the simulation by one step
+     * @returns {number} - Number of steps run
+     */
+    run(now: number, speed: SimulationSpeed, step: () => void): number {
+        const elapsed = this.lastTime === null ? 0 : now - this.lastTime;
+        this.lastTime = now;
+
+        if (speed === 'max') {
+            this.accumulator = 0;
+            const start = performance.now();
+            let steps = 0;
+            do {
+                step();
+                steps++;
+            } while (performance.now() - start < this.maxFrameBudgetMs);
+            return steps;
+        }
+
+        this.accumulator += elapsed * speed;
+        let steps = 0;
+        while (this.accumulator >= this.stepMs && steps < this.maxStepsPerFrame) {
+            step();
+            this.accumulator -= this.stepMs;
+            steps++;
+        }
+        if (steps === this.maxStepsPerFrame) {
+            this.accumulator = 0;
+        }
+        return steps;
+    }
+}
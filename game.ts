@@ -1,84 +1,69 @@
-class Bird {
+import { DifficultyLevel, DifficultyName, DifficultyProfile, getDifficulty } from "./difficulty";
+import { FeatureName, features } from "./features";
+import { defaultPhysics, GAP_MARGIN, PhysicsConfig } from "./physics";
+import { Random } from "./random";
+
+/**
+ * What ended a bird's flight. 'timeout' means the episode was ended
+ * from outside (e.g. a frame cap) while the bird was still flying.
+ */
+export type DeathCause = 'ground' | 'ceiling' | 'pipe' | 'timeout';
+
+export class Bird {
     public x: number;
     public y: number;
     public velocity: number;
     public alive: boolean;
     public height: number;
 
-    private width: number;
+    public width: number;
+    public rotation: number;
+    public score: number;
+    public framesAlive: number;
+    // Whether flap() was called since the last update
+    public flapped: boolean;
+    public deathCause: DeathCause | null;
+
     private gravity: number;
     private flapForce: number;
-    private rotation: number;
+    private terminalVelocity: number;
 
-    constructor(x: number, y: number) {
+    constructor(x: number, y: number, physics: PhysicsConfig = defaultPhysics()) {
         this.x = x;
         this.y = y;
         this.width = 34;
         this.height = 24;
-        this.gravity = 0.6;
+        this.gravity = physics.gravity;
         this.velocity = 0;
-        this.flapForce = -8;
+        this.flapForce = physics.flapForce;
+        this.terminalVelocity = physics.terminalVelocity;
         this.rotation = 0;
         this.alive = true;
+        this.score = 0;
+        this.framesAlive = 0;
+        this.flapped = false;
+        this.deathCause = null;
     }
 
     flap() {
-        if (this.alive) this.velocity = this.flapForce;
+        if (!this.alive) return;
+        this.velocity = this.flapForce;
+        this.flapped = true;
     }
 
     update() {
         if (!this.alive) return;
+        this.framesAlive++;
 
         // Apply gravity
         this.velocity += this.gravity;
-        this.velocity = Math.min(this.velocity, 12); // Terminal velocity
+        this.velocity = Math.min(this.velocity, this.terminalVelocity);
         this.y += this.velocity;
 
         // Update rotation based on velocity
         this.rotation = Math.min(Math.max(this.velocity * 3, -30), 90);
     }
 
-    draw(ctx: CanvasRenderingContext2D) {
-        ctx.save();
-        ctx.translate(this.x + this.width / 2, this.y + this.height / 2);
-        ctx.rotate((Math.PI / 180) * this.rotation);
-
-        // Body
-        ctx.fillStyle = "#ffdd00";
-        ctx.beginPath();
-        ctx.ellipse(0, 0, this.width / 2, this.height / 2, 0, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Eye
-        ctx.fillStyle = "#fff";
-        ctx.beginPath();
-        ctx.arc(8, -4, 6, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Pupil
-        ctx.fillStyle = "#000";
-        ctx.beginPath();
-        ctx.arc(10, -4, 3, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Beak
-        ctx.fillStyle = "#ff6600";
-        ctx.beginPath();
-        ctx.moveTo(15, 0);
-        ctx.lineTo(22, 3);
-        ctx.lineTo(15, 6);
-        ctx.closePath();
-        ctx.fill();
-
-        // Wing
-        ctx.fillStyle = "#ffaa00";
-        ctx.beginPath();
-        ctx.ellipse(-5, 4, 10, 6, -0.3, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.restore();
-    }
-
     getBounds() {
         return {
             x: this.x + 4,
@@ -89,7 +74,17 @@ class Bird {
     }
 }
 
-class Pipe {
+/**
+ * Vertical movement of a pipe's gap around where it spawned
+ */
+export type PipeOscillation = {
+    amplitude: number;
+    // Radians per frame
+    speed: number;
+    phase: number;
+};
+
+export class Pipe {
     x: number;
     width: number;
     gapY: number;
@@ -97,58 +92,43 @@ class Pipe {
     canvasHeight: number;
     speed: number;
     passed: boolean;
+    oscillation: PipeOscillation | null;
+
+    // Gap position the oscillation is centred on
+    private baseGapY: number;
 
     constructor(
         x: number,
         gapY: number,
         gapHeight: number,
-        canvasHeight: number
+        canvasHeight: number,
+        width: number = 60,
+        speed: number = 3,
+        oscillation: PipeOscillation | null = null
     ) {
         this.x = x;
-        this.width = 60;
+        this.width = width;
         this.gapY = gapY;
+        this.baseGapY = gapY;
         this.gapHeight = gapHeight;
         this.canvasHeight = canvasHeight;
-        this.speed = 3;
+        this.speed = speed;
         this.passed = false;
+        this.oscillation = oscillation;
+        this.updateGap();
     }
 
     update() {
         this.x -= this.speed;
+        if (this.oscillation) {
+            this.oscillation.phase += this.oscillation.speed;
+            this.updateGap();
+        }
     }
 
-    draw(ctx: CanvasRenderingContext2D) {
-        const pipeGradient = ctx.createLinearGradient(
-            this.x,
-            0,
-            this.x + this.width,
-            0
-        );
-        pipeGradient.addColorStop(0, "#00aa44");
-        pipeGradient.addColorStop(0.5, "#00ff66");
-        pipeGradient.addColorStop(1, "#00aa44");
-
-        // Top pipe
-        ctx.fillStyle = pipeGradient;
-        ctx.fillRect(this.x, 0, this.width, this.gapY);
-
-        // Top pipe cap
-        ctx.fillStyle = "#00cc55";
-        ctx.fillRect(this.x - 4, this.gapY - 25, this.width + 8, 25);
-        ctx.strokeStyle = "#008833";
-        ctx.lineWidth = 2;
-        ctx.strokeRect(this.x - 4, this.gapY - 25, this.width + 8, 25);
-
-        // Bottom pipe
-        ctx.fillStyle = pipeGradient;
-        const bottomY = this.gapY + this.gapHeight;
-        ctx.fillRect(this.x, bottomY, this.width, this.canvasHeight - bottomY);
-
-        // Bottom pipe cap
-        ctx.fillStyle = "#00cc55";
-        ctx.fillRect(this.x - 4, bottomY, this.width + 8, 25);
-        ctx.strokeStyle = "#008833";
-        ctx.strokeRect(this.x - 4, bottomY, this.width + 8, 25);
+    private updateGap() {
+        if (!this.oscillation) return;
+        this.gapY = this.baseGapY + this.oscillation.amplitude * Math.sin(this.oscillation.phase);
     }
 
     getGapCenter() {
@@ -185,94 +165,234 @@ class Pipe {
     }
 }
 
-export type GameState = ReturnType<Game['getGameState']>;
+/**
+ * Every registered feature's value for one bird, or null before there is a bird
+ */
+export type GameState = Record<FeatureName, number> | null;
+
+/**
+ * Everything besides the seed and the inputs needed to re-simulate an episode
+ */
+export type GameConfig = {
+    width: number;
+    height: number;
+    difficulty: DifficultyName;
+    physics: PhysicsConfig;
+};
+
+export function defaultGameConfig(): GameConfig {
+    return {
+        width: 400,
+        height: 600,
+        difficulty: 'normal',
+        physics: defaultPhysics()
+    };
+}
+
+/**
+ * Constants getGameState() uses to scale raw values into roughly [0, 1]
+ */
+export type Normalization = {
+    width: number;
+    height: number;
+    velocityOffset: number;
+    velocityRange: number;
+    pipeSpeedRange: number;
+};
 
 export class Game {
     public bestScore = 0
     public gameState: "idle" | "playing" | "gameover" = 'idle';
 
-    private ctx: CanvasRenderingContext2D | null;
-    private width: number;
-    private height: number;
-    private bird: Bird | null = null;
-    private pipes: Pipe[] = []
-    private score: number = 0;
-    private frameCount: number = 0;
-    private pipeSpawnInterval: number = 100;
-    private gapHeight: number = 150;
-    private groundY: number;
+    public width: number;
+    public height: number;
+    public groundY: number;
+    public birds: Bird[] = [];
+    public pipes: Pipe[] = []
+    public score: number = 0;
+    public frameCount: number = 0;
+    public random: Random;
+    public difficulty: DifficultyProfile;
+    public physics: PhysicsConfig;
+
+    // Frame at which the next pipe appears
+    private nextSpawnFrame: number = 0;
 
     // Callbacks
     onScore: ((score: number) => void) | null = null;
     onGameOver: ((score: number) => void) | null = null;
-    onStateCapture: ((state: any) => void) | null = null;
-
-    constructor(canvas: HTMLCanvasElement) {
-        this.ctx = canvas.getContext("2d");
-        this.width = canvas.width;
-        this.height = canvas.height;
+    // Called at the start of each frame with whether the first bird flapped going into it
+    onFrame: ((frame: number, flapped: boolean) => void) | null = null;
+    // Receives the state after each frame, and whether the first bird flapped going into that frame
+    onStateCapture: ((state: GameState, flapped: boolean) => void) | null = null;
+
+    /**
+     * The simulation has no DOM dependencies so it can run headless under Node.
+     * Drawing is handled separately by a Renderer.
+     * Pipe gaps come from the seeded random source, rewound on every reset,
+     * so each episode on the same seed sees the same pipe sequence.
+     * Pipe speed, gap size, spacing and movement come from the difficulty profile,
+     * which scales the base gap and spacing of the physics config.
+     */
+    constructor(config: Partial<GameConfig> = {}, random: Random = new Random()) {
+        const { width, height, difficulty, physics } = { ...defaultGameConfig(), ...config };
+        this.width = width;
+        this.height = height;
+        this.difficulty = getDifficulty(difficulty);
+        this.physics = { ...physics };
+        this.random = random;
 
         this.groundY = this.height - 50;
     }
 
-    reset() {
-        this.bird = new Bird(80, this.height / 2);
+    /**
+     * Switch difficulty profile. Takes effect from the next pipe or score change.
+     */
+    setDifficulty(name: DifficultyName) {
+        this.difficulty = getDifficulty(name);
+    }
+
+    /**
+     * Switch physics. Birds pick them up on the next reset, pipes as they spawn.
+     */
+    setPhysics(physics: PhysicsConfig) {
+        this.physics = { ...physics };
+    }
+
+    /**
+     * Pipe settings for the current score
+     */
+    getDifficultyLevel(): DifficultyLevel {
+        return this.difficulty.levelFor(this.score, this.physics);
+    }
+
+    /**
+     * The first bird, which is the one a human or single AI controls
+     */
+    get bird(): Bird | null {
+        return this.birds[0] ?? null;
+    }
+
+    reset(birdCount: number = 1) {
+        this.random.reset();
+        this.birds = [];
+        for (let i = 0; i < birdCount; i++) {
+            this.birds.push(new Bird(80, this.height / 2, this.physics));
+        }
         this.pipes = [];
         this.score = 0;
         this.frameCount = 0;
         this.gameState = "idle";
     }
 
-    start() {
-        this.reset();
+    /**
+     * Start an episode. With more than one bird, all of them fly through
+     * the same pipes and the game ends once every bird has died.
+     */
+    start(birdCount: number = 1) {
+        this.reset(birdCount);
         this.gameState = "playing";
         this.spawnPipes();
     }
 
     spawnPipes() {
-        const minGapY = 80;
-        const maxGapY = this.groundY - this.gapHeight - 80;
-        const gapY = Math.random() * (maxGapY - minGapY) + minGapY;
-        this.pipes.push(new Pipe(this.width, gapY, this.gapHeight, this.height));
+        const level = this.getDifficultyLevel();
+        const minGapY = GAP_MARGIN;
+        // Difficulty can widen the gap past what physicsError() checked
+        const maxGapY = Math.max(minGapY, this.groundY - level.gapHeight - GAP_MARGIN);
+        let gapY = this.random.range(minGapY, maxGapY);
+
+        // Only draw extra random numbers when the profile uses them,
+        // so fixed profiles keep the pipe sequence a seed has always produced
+        let oscillation: PipeOscillation | null = null;
+        if (level.oscillationChance > 0 && this.random.next() < level.oscillationChance) {
+            const amplitude = Math.min(level.oscillationAmplitude, (maxGapY - minGapY) / 2);
+            oscillation = {
+                amplitude,
+                speed: level.oscillationSpeed,
+                phase: this.random.range(0, 2 * Math.PI)
+            };
+            gapY = Math.min(Math.max(gapY, minGapY + amplitude), maxGapY - amplitude);
+        }
+        this.pipes.push(new Pipe(
+            this.width, gapY, level.gapHeight, this.height, this.physics.pipeWidth, level.pipeSpeed, oscillation
+        ));
+
+        const jitter = level.spawnJitter > 0 ? this.random.int(2 * level.spawnJitter + 1) - level.spawnJitter : 0;
+        this.nextSpawnFrame = this.frameCount + level.spawnInterval + jitter;
     }
 
-    flap() {
+    flap(index: number = 0) {
         if (this.gameState === "playing") {
-            this.bird?.flap();
+            this.birds[index]?.flap();
+        }
+    }
+
+    aliveCount() {
+        return this.birds.filter(bird => bird.alive).length;
+    }
+
+    killBird(bird: Bird, cause: DeathCause) {
+        bird.alive = false;
+        bird.deathCause = cause;
+        if (this.aliveCount() === 0) {
+            this.gameOver();
         }
     }
 
     gameOver() {
-        if (this.bird === null) return;
+        if (this.birds.length === 0) return;
         this.gameState = 'gameover';
-        this.bird.alive = false;
+        for (const bird of this.birds) {
+            if (bird.alive) bird.deathCause = 'timeout';
+            bird.alive = false;
+        }
         if (this.onGameOver) this.onGameOver(this.score);
     }
 
 
     update() {
-        if (this.gameState !== "playing" || !this.bird) return;
+        if (this.gameState !== "playing" || this.birds.length === 0) return;
 
         this.frameCount++;
-        this.bird.update();
+        const flapped = this.birds[0].flapped;
+        for (const bird of this.birds) {
+            bird.flapped = false;
+        }
+        if (this.onFrame) this.onFrame(this.frameCount, flapped);
 
-        // Check ground/ceiling collision
-        if (this.bird.y + this.bird.height > this.groundY || this.bird.y < 0) {
-            this.gameOver();
-            return;
+        for (const bird of this.birds) {
+            if (!bird.alive) continue;
+            bird.update();
+
+            // Check ground/ceiling collision
+            if (bird.y + bird.height > this.groundY) {
+                this.killBird(bird, 'ground');
+            } else if (bird.y < 0) {
+                this.killBird(bird, 'ceiling');
+            }
         }
-        // Update pipes
+        if (this.gameState !== "playing") return;
+
+        // Update pipes, all moving at the current speed so they never bunch up
+        const pipeSpeed = this.getDifficultyLevel().pipeSpeed;
         for (const pipe of this.pipes) {
+            pipe.speed = pipeSpeed;
             pipe.update();
 
-            if (pipe.checkCollision(this.bird)) {
-                this.gameOver();
-                return;
+            for (const bird of this.birds) {
+                if (bird.alive && pipe.checkCollision(bird)) {
+                    this.killBird(bird, 'pipe');
+                }
             }
+            if (this.gameState !== "playing") return;
 
-            // Check if bird passed the pipe
-            if (!pipe.passed && pipe.x + pipe.width < this.bird.x) {
+            // Check if the birds passed the pipe (they all share the same x)
+            if (!pipe.passed && pipe.x + pipe.width < this.birds[0].x) {
                 pipe.passed = true;
+                for (const bird of this.birds) {
+                    if (bird.alive) bird.score++;
+                }
                 this.score++;
                 if (this.score > this.bestScore) {
                     this.bestScore = this.score;
@@ -287,31 +407,48 @@ export class Game {
         }
 
         // Spawn new pipes
-        if (this.frameCount % this.pipeSpawnInterval === 0) {
+        if (this.frameCount >= this.nextSpawnFrame) {
             this.spawnPipes();
         }
 
         if (this.onStateCapture) {
-            this.onStateCapture(this.getGameState());
+            this.onStateCapture(this.getGameState(), flapped);
         }
     }
 
-    getGameState() {
-        if (!this.bird) return null;
-        const nextPipe = this.pipes.find(pipe => pipe.x + pipe.width > this.bird!.x);
-        const normalizedY = this.bird.y / this.height;
-        const normalizedVelocity = (this.bird.velocity + 15) / 30;
-        const normalizedDistance = nextPipe ? (nextPipe.x - this.bird.x) / this.width : 1;
-        const normalizedPipeGapY = nextPipe ? nextPipe.getGapCenter() / this.height : 0.5;
+    getConfig(): GameConfig {
+        return {
+            width: this.width,
+            height: this.height,
+            difficulty: this.difficulty.name,
+            physics: { ...this.physics }
+        };
+    }
 
+    getNormalization(): Normalization {
         return {
-            birdY: normalizedY,
-            birdVelocity: normalizedVelocity,
-            pipeDistance: normalizedDistance,
-            pipeGapY: normalizedPipeGapY,
+            width: this.width,
+            height: this.height,
+            velocityOffset: 15,
+            velocityRange: 30,
+            pipeSpeedRange: 10
         };
     }
 
+    /**
+     * Normalized values of every registered feature, for the given bird
+     */
+    getGameState(bird: Bird | null = this.bird): GameState {
+        if (!bird) return null;
+        const context = { game: this, bird, norm: this.getNormalization() };
+
+        const state = {} as Record<FeatureName, number>;
+        for (const feature of Object.values(features)) {
+            state[feature.name] = feature.compute(context);
+        }
+        return state;
+    }
+
     isPlaying() {
         return this.gameState === "playing";
     }
@@ -319,52 +456,4 @@ export class Game {
     isGameOver() {
         return this.gameState === "gameover";
     }
-
-    draw() {
-        const ctx = this.ctx;
-        if (!ctx) return;
-
-        // Background gradient
-        const bgGradient = ctx.createLinearGradient(0, 0, 0, this.height);
-        bgGradient.addColorStop(0, '#1a1a3e');
-        bgGradient.addColorStop(0.5, '#12122a');
-        bgGradient.addColorStop(1, '#0a0a1a');
-        ctx.fillStyle = "#87CEEB";
-        ctx.fillRect(0, 0, this.width, this.height);
-
-        // Stars
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-        for (let i = 0; i < 50; i++) {
-            const x = (i * 97) % this.width;
-            const y = (i * 53) % (this.height - 100);
-            const size = (i % 3) + 1;
-            ctx.beginPath();
-            ctx.arc(x, y, size, 0, Math.PI * 2);
-            ctx.fill();
-        }
-
-        // Ground
-        ctx.fillStyle = '#53a600ff';
-        ctx.fillRect(0, this.groundY, this.width, this.height - this.groundY);
-        ctx.strokeStyle = '#00ff88';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.moveTo(0, this.groundY);
-        ctx.lineTo(this.width, this.groundY);
-        ctx.stroke();
-
-        // Draw pipes
-        for (const pipe of this.pipes) {
-            pipe.draw(ctx);
-        }
-
-        // Draw bird
-        this.bird?.draw(ctx);
-
-        ctx.fillStyle = '#ffffff';
-        ctx.font = 'bold 48px Outfit';
-        ctx.textAlign = 'center';
-        ctx.fillText(this.score.toString(), this.width / 2, 70);
-
-    }
-}   
+}
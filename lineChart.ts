@@ -0,0 +1,147 @@
+export type ChartSeries = {
+    label: string;
+    color: string;
+    values: number[];
+    // Ascending x position of each value; the value's index if omitted
+    x?: number[];
+};
+
+/**
+ * Minimal canvas line chart: series are drawn against a shared x axis
+ * and a y axis fitted to the visible data.
+ * Scroll to zoom the x axis around the cursor; double-click to zoom back out.
+ */
+export class LineChart {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private series: ChartSeries[] = [];
+    private padding = { top: 20, right: 10, bottom: 20, left: 40 };
+    private colors = {
+        background: '#ffffff',
+        axis: '#bdc3c7',
+        text: '#2c3e50'
+    };
+    // Visible x range while zoomed in, null to show everything
+    private view: { min: number, max: number } | null = null;
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+        this.ctx = canvas.getContext('2d')!;
+
+        canvas.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const fraction = ((e.clientX - rect.left) * canvas.width / rect.width - this.padding.left) /
+                (canvas.width - this.padding.left - this.padding.right);
+            this.zoom(e.deltaY < 0 ? 0.8 : 1.25, Math.min(1, Math.max(0, fraction)));
+        }, { passive: false });
+        canvas.addEventListener('dblclick', () => this.resetZoom());
+    }
+
+    setSeries(series: ChartSeries[]) {
+        this.series = series;
+        this.draw();
+    }
+
+    /**
+     * Scale the visible x range, keeping the point at `anchor` (0 = left edge, 1 = right edge) in place
+     */
+    zoom(factor: number, anchor = 0.5) {
+        const full = this.fullRange();
+        if (!full) return;
+        const current = this.view ?? full;
+        const pivot = current.min + (current.max - current.min) * anchor;
+        const min = Math.max(full.min, pivot - (pivot - current.min) * factor);
+        const max = Math.min(full.max, pivot + (current.max - pivot) * factor);
+        this.view = min <= full.min && max >= full.max ? null : { min, max };
+        this.draw();
+    }
+
+    resetZoom() {
+        this.view = null;
+        this.draw();
+    }
+
+    draw() {
+        const ctx = this.ctx;
+        const { width, height } = this.canvas;
+        const { top, right, bottom, left } = this.padding;
+        const plotWidth = width - left - right;
+        const plotHeight = height - top - bottom;
+
+        ctx.fillStyle = this.colors.background;
+        ctx.fillRect(0, 0, width, height);
+
+        const full = this.fullRange();
+        if (!full) return;
+        // While zoomed the view stays put as new data arrives
+        const range = this.view ?? full;
+        const xMax = range.max === range.min ? range.min + 1 : range.max;
+
+        const visible = this.series.map(s => s.values
+            .map((v, i) => ({ x: s.x?.[i] ?? i, v }))
+            .filter(point => point.x >= range.min && point.x <= range.max));
+        const values = visible.flat().map(point => point.v);
+        if (values.length === 0) return;
+
+        // Reduce rather than spread: long histories would overflow the call stack
+        const min = values.reduce((a, b) => Math.min(a, b), 0);
+        let max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+        if (max === min) max = min + 1;
+
+        const x = (value: number) => left + plotWidth * (value - range.min) / (xMax - range.min);
+        const y = (v: number) => top + plotHeight * (1 - (v - min) / (max - min));
+
+        // Axes, y range and x range
+        ctx.strokeStyle = this.colors.axis;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(left, top);
+        ctx.lineTo(left, top + plotHeight);
+        ctx.lineTo(left + plotWidth, top + plotHeight);
+        ctx.stroke();
+
+        ctx.fillStyle = this.colors.text;
+        ctx.font = '10px Arial';
+        ctx.textAlign = 'right';
+        ctx.fillText(max.toFixed(1), left - 4, top + 4);
+        ctx.fillText(min.toFixed(1), left - 4, top + plotHeight);
+        ctx.fillText(formatX(range.max), left + plotWidth, height - 6);
+        ctx.textAlign = 'left';
+        ctx.fillText(formatX(range.min), left, height - 6);
+
+        // Lines, with a legend across the top
+        let legendX = left;
+        this.series.forEach((s, index) => {
+            ctx.strokeStyle = s.color;
+            ctx.beginPath();
+            visible[index].forEach((point, i) => {
+                if (i === 0) ctx.moveTo(x(point.x), y(point.v));
+                else ctx.lineTo(x(point.x), y(point.v));
+            });
+            ctx.stroke();
+
+            ctx.fillStyle = s.color;
+            ctx.fillText(s.label, legendX, 12);
+            legendX += ctx.measureText(s.label).width + 12;
+        });
+    }
+
+    /**
+     * Smallest and largest x across all series, or null when there is no data
+     */
+    private fullRange(): { min: number, max: number } | null {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const s of this.series) {
+            if (s.values.length === 0) continue;
+            min = Math.min(min, s.x ? s.x[0] : 0);
+            max = Math.max(max, s.x ? s.x[s.x.length - 1] : s.values.length - 1);
+        }
+        return min === Infinity ? null : { min, max };
+    }
+}
+
+function formatX(value: number) {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
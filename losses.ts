@@ -0,0 +1,63 @@
+import { ActivationName } from "./activations";
+
+export type LossName = 'mse' | 'bce';
+
+export interface Loss {
+    name: LossName;
+    label: string;
+    /** Loss of one output against its target */
+    fn: (output: number, target: number) => number;
+    /** Derivative of the loss with respect to the output */
+    derivative: (output: number, target: number) => number;
+    /** Output activations the loss can train; any if omitted */
+    outputActivations?: ActivationName[];
+}
+
+// Keeps log() finite when an output saturates at 0 or 1
+const EPSILON = 1e-7;
+
+function clampProbability(p: number) {
+    return Math.min(1 - EPSILON, Math.max(EPSILON, p));
+}
+
+export const losses: Record<LossName, Loss> = {
+    mse: {
+        name: 'mse',
+        label: 'MSE',
+        fn: (output, target) => (target - output) * (target - output),
+        // Gradient of half the squared error, which keeps the learning rate scale we've always used
+        derivative: (output, target) => output - target
+    },
+    bce: {
+        name: 'bce',
+        label: 'Binary Cross-Entropy',
+        fn: (output, target) => {
+            const p = clampProbability(output);
+            return -(target * Math.log(p) + (1 - target) * Math.log(1 - p));
+        },
+        derivative: (output, target) => {
+            const p = clampProbability(output);
+            return (p - target) / (p * (1 - p));
+        },
+        // Outputs must be probabilities: outside (0, 1) the clamped gradient points the wrong way
+        outputActivations: ['sigmoid']
+    }
+};
+
+export function getLoss(name: string): Loss {
+    if (!Object.hasOwn(losses, name)) {
+        throw new Error(`Unknown loss function: ${name}`);
+    }
+    return losses[name as LossName];
+}
+
+/**
+ * Why this loss can't train a network with this output activation, or null if it can
+ */
+export function lossActivationError(lossName: LossName, outputActivation: ActivationName): string | null {
+    const loss = getLoss(lossName);
+    if (loss.outputActivations && !loss.outputActivations.includes(outputActivation)) {
+        return `${loss.label} needs a ${loss.outputActivations.join(' or ')} output, not ${outputActivation}`;
+    }
+    return null;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_NORMALIZATION, MODEL_FORMAT_VERSION, ModelFile, ModelFormatError, parseModelFile } from "./modelFormat";
+import { NeuralNetwork } from "./neuralNetwork";
+import { defaultPhysics, physicsPresets } from "./physics";
+import { Random } from "./random";
+
+function model(): ModelFile {
+    const nn = new NeuralNetwork([4, 8, 1], new Random(1));
+    nn.setLoss('bce');
+    return nn.toModelFile({ trainedEpochs: 12 }, DEFAULT_NORMALIZATION, physicsPresets.floaty.physics);
+}
+
+function parse(file: unknown) {
+    return parseModelFile(JSON.stringify(file));
+}
+
+describe('parseModelFile', () => {
+    it('accepts a current model file unchanged', () => {
+        const file = model();
+        expect(parse(file)).toEqual(file);
+    });
+
+    it('round-trips a network through fromJSON', () => {
+        const nn = new NeuralNetwork([4, 16, 8, 1], new Random(3), ['relu', 'tanh', 'sigmoid']);
+        const copy = new NeuralNetwork([4, 8, 1], new Random(4));
+        copy.fromJSON(nn.toJSON());
+        expect(copy.layerSizes).toEqual([4, 16, 8, 1]);
+        expect(copy.activations).toEqual(['relu', 'tanh', 'sigmoid']);
+        expect(copy.getWeights()).toEqual(nn.getWeights());
+    });
+
+    it('migrates version 1 files to the current version', () => {
+        const file: any = model();
+        delete file.physics;
+        delete file.normalization.pipeSpeedRange;
+        file.version = 1;
+
+        const migrated = parse(file);
+        expect(migrated.version).toBe(MODEL_FORMAT_VERSION);
+        expect(migrated.normalization.pipeSpeedRange).toBe(DEFAULT_NORMALIZATION.pipeSpeedRange);
+        expect(migrated.physics).toEqual(defaultPhysics());
+        expect(migrated.weights).toEqual(file.weights);
+    });
+
+    it('migrates version 2 files to classic physics', () => {
+        const file: any = model();
+        delete file.physics;
+        file.version = 2;
+
+        const migrated = parse(file);
+        expect(migrated.version).toBe(MODEL_FORMAT_VERSION);
+        expect(migrated.physics).toEqual(defaultPhysics());
+    });
+
+    it('migrates unversioned single-hidden-layer files', () => {
+        const legacy = {
+            weightsIH: [[0.1, 0.2], [0.3, 0.4], [0.5, 0.6], [0.7, 0.8]],
+            weightsHO: [[0.9], [1.0]],
+            biasH: [0, 0.1],
+            biasO: [0.2]
+        };
+
+        const migrated = parse(legacy);
+        expect(migrated.version).toBe(MODEL_FORMAT_VERSION);
+        expect(migrated.architecture).toEqual({ layerSizes: [4, 2, 1], activations: ['sigmoid', 'sigmoid'] });
+        expect(migrated.weights).toEqual([legacy.weightsIH, legacy.weightsHO]);
+    });
+
+    it('rejects files that are not models', () => {
+        expect(() => parseModelFile('not json')).toThrow(ModelFormatError);
+        expect(() => parse([1, 2, 3])).toThrow(ModelFormatError);
+        expect(() => parse({ format: 'something-else', version: 1 })).toThrow(/Unknown model format/);
+    });
+
+    it('rejects files from a newer version', () => {
+        expect(() => parse({ ...model(), version: MODEL_FORMAT_VERSION + 1 })).toThrow(/newer than this app supports/);
+    });
+
+    it('rejects unknown and inherited registry names', () => {
+        const withActivation = model();
+        withActivation.architecture.activations[0] = 'constructor' as any;
+        expect(() => parse(withActivation)).toThrow(/Unknown activation/);
+
+        const withFeature = model();
+        withFeature.inputFeatures[0] = 'toString' as any;
+        expect(() => parse(withFeature)).toThrow(/Unknown input feature/);
+
+        const withLoss = model();
+        withLoss.training.loss = 'hasOwnProperty' as any;
+        expect(() => parse(withLoss)).toThrow(/Unknown loss function/);
+    });
+
+    it('rejects cross-entropy without a sigmoid output', () => {
+        const file = model();
+        file.architecture.activations[1] = 'linear';
+        expect(() => parse(file)).toThrow(/sigmoid output/);
+    });
+
+    it('rejects weights that do not match the architecture', () => {
+        const file = model();
+        file.weights[1] = [[1]];
+        expect(() => parse(file)).toThrow(/should be 8×1/);
+    });
+
+    it('rejects invalid physics', () => {
+        const file = model();
+        file.physics = { ...file.physics, gapHeight: 500 };
+        expect(() => parse(file)).toThrow(/Invalid physics/);
+    });
+
+    it('rejects edited weights through the checksum', () => {
+        const file = model();
+        file.weights[0][0][0] += 1;
+        expect(() => parse(file)).toThrow(/Checksum mismatch/);
+    });
+});
+
+describe('NeuralNetwork.fromJSON', () => {
+    it('rejects models scaled for a different game', () => {
+        const nn = new NeuralNetwork([4, 8, 1], new Random(1));
+        const json = nn.toJSON({}, { ...DEFAULT_NORMALIZATION, height: 800 });
+        expect(() => new NeuralNetwork([4, 8, 1]).fromJSON(json)).toThrow(/normalization.height/);
+    });
+});
@@ -0,0 +1,303 @@
+import { ActivationName, activations } from "./activations";
+import { DEFAULT_FEATURES, FeatureName, features } from "./features";
+import { Normalization } from "./game";
+import { lossActivationError, LossName, losses } from "./losses";
+import { OptimizerName, optimizers } from "./optimizers";
+import { defaultPhysics, PhysicsConfig, physicsError } from "./physics";
+
+export const MODEL_FORMAT = 'flappy-nn-model';
+export const MODEL_FORMAT_VERSION = 3;
+
+export type TrainingMetadata = {
+    loss: LossName;
+    optimizer: OptimizerName;
+    learningRate: number | null;
+    trainedEpochs: number;
+    totalSamples: number;
+    bestScore: number;
+    seed: number | null;
+    savedAt: string;
+};
+
+export type ModelFile = {
+    format: typeof MODEL_FORMAT;
+    version: number;
+    architecture: {
+        layerSizes: number[];
+        activations: ActivationName[];
+    };
+    inputFeatures: FeatureName[];
+    normalization: Normalization;
+    // Physics of the game the network was trained in
+    physics: PhysicsConfig;
+    training: TrainingMetadata;
+    weights: number[][][];
+    biases: number[][];
+    checksum: string;
+};
+
+/**
+ * Thrown by parseModelFile() for files that aren't a valid model, and when a
+ * model can't run in the game it is loaded into
+ */
+export class ModelFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ModelFormatError';
+    }
+}
+
+/**
+ * Reject a model whose inputs were scaled with different constants than the game
+ * it is about to play: its weights would see every input on the wrong scale
+ */
+export function checkNormalization(model: ModelFile, expected: Normalization) {
+    for (const key of Object.keys(expected) as (keyof Normalization)[]) {
+        if (model.normalization[key] !== expected[key]) {
+            throw new ModelFormatError(
+                `Model was trained with normalization.${key} = ${model.normalization[key]}, but this game uses ${expected[key]}`
+            );
+        }
+    }
+}
+
+// Values getGameState() has always used for the 400×600 canvas
+export const DEFAULT_NORMALIZATION: Normalization = {
+    width: 400,
+    height: 600,
+    velocityOffset: 15,
+    velocityRange: 30,
+    pipeSpeedRange: 10
+};
+
+export function defaultTrainingMetadata(): TrainingMetadata {
+    return {
+        loss: 'mse',
+        optimizer: 'sgd',
+        learningRate: null,
+        trainedEpochs: 0,
+        totalSamples: 0,
+        bestScore: 0,
+        seed: null,
+        savedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * FNV-1a hash of the architecture and parameters, as 8 hex digits
+ */
+export function computeChecksum(model: Pick<ModelFile, 'architecture' | 'weights' | 'biases'>): string {
+    const text = JSON.stringify([
+        model.architecture.layerSizes,
+        model.architecture.activations,
+        model.weights,
+        model.biases
+    ]);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Build a complete model file, filling in the checksum
+ */
+export function createModelFile(model: Omit<ModelFile, 'format' | 'version' | 'checksum'>): ModelFile {
+    const file = {
+        format: MODEL_FORMAT,
+        version: MODEL_FORMAT_VERSION,
+        ...model,
+        checksum: ''
+    } as ModelFile;
+    file.checksum = computeChecksum(file);
+    return file;
+}
+
+/**
+ * Parse, migrate and validate a model file
+ * @param {string} json - File contents
+ * @returns {ModelFile} - A model file in the current version
+ * @throws {ModelFormatError} - If the file is malformed, inconsistent or corrupted
+ */
+export function parseModelFile(json: string): ModelFile {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new ModelFormatError(`Model file is not valid JSON: ${(e as Error).message}`);
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new ModelFormatError('Model file must contain a JSON object');
+    }
+
+    const model = data.format === undefined ? migrateUnversioned(data) : data;
+    if (model.format === MODEL_FORMAT && model.version === 1) {
+        migrateVersion1(model);
+    }
+    if (model.format === MODEL_FORMAT && model.version === 2) {
+        migrateVersion2(model);
+    }
+    validateModelFile(model);
+    return model;
+}
+
+/**
+ * Version 2 added pipe speed to the normalization constants.
+ * Version 1 models can't use the pipe speed feature, so the default is safe.
+ */
+function migrateVersion1(model: any) {
+    if (model.normalization && typeof model.normalization === 'object') {
+        model.normalization.pipeSpeedRange ??= DEFAULT_NORMALIZATION.pipeSpeedRange;
+    }
+    model.version = 2;
+}
+
+/**
+ * Version 3 records the game physics. Earlier models were all trained under the classic preset.
+ */
+function migrateVersion2(model: any) {
+    model.physics ??= defaultPhysics();
+    model.version = 3;
+}
+
+/**
+ * Convert files written before the format was versioned:
+ * bare single-hidden-layer weights, or layer arrays without metadata
+ */
+function migrateUnversioned(data: any): ModelFile {
+    let layerSizes: number[];
+    let weights: number[][][];
+    let biases: number[][];
+
+    if (data.weightsIH !== undefined) {
+        if (!Array.isArray(data.weightsIH) || !Array.isArray(data.weightsHO) ||
+            !Array.isArray(data.biasH) || !Array.isArray(data.biasO)) {
+            throw new ModelFormatError('Legacy model file needs weightsIH, weightsHO, biasH and biasO arrays');
+        }
+        layerSizes = [data.weightsIH.length, data.biasH.length, data.biasO.length];
+        weights = [data.weightsIH, data.weightsHO];
+        biases = [data.biasH, data.biasO];
+    } else if (data.layerSizes !== undefined) {
+        layerSizes = data.layerSizes;
+        weights = data.weights;
+        biases = data.biases;
+    } else {
+        throw new ModelFormatError('Unrecognized model file: no format field and no known weight layout');
+    }
+
+    if (!Array.isArray(layerSizes)) {
+        throw new ModelFormatError('Legacy model file has no valid layer sizes');
+    }
+
+    return createModelFile({
+        architecture: {
+            layerSizes,
+            activations: data.activations ?? layerSizes.slice(1).map(() => 'sigmoid')
+        },
+        inputFeatures: [...DEFAULT_FEATURES],
+        normalization: { ...DEFAULT_NORMALIZATION },
+        physics: defaultPhysics(),
+        training: defaultTrainingMetadata(),
+        weights,
+        biases
+    });
+}
+
+function validateModelFile(model: any) {
+    if (model.format !== MODEL_FORMAT) {
+        throw new ModelFormatError(`Unknown model format "${model.format}", expected "${MODEL_FORMAT}"`);
+    }
+    if (!Number.isInteger(model.version) || model.version < 1) {
+        throw new ModelFormatError(`Invalid model version: ${model.version}`);
+    }
+    if (model.version > MODEL_FORMAT_VERSION) {
+        throw new ModelFormatError(
+            `Model version ${model.version} is newer than this app supports (up to ${MODEL_FORMAT_VERSION})`
+        );
+    }
+
+    // Architecture
+    const layerSizes = model.architecture?.layerSizes;
+    if (!Array.isArray(layerSizes) || layerSizes.length < 2 ||
+        layerSizes.some((size: unknown) => !Number.isInteger(size) || (size as number) < 1)) {
+        throw new ModelFormatError('architecture.layerSizes must list at least two positive integers');
+    }
+    const layerActivations = model.architecture.activations;
+    if (!Array.isArray(layerActivations) || layerActivations.length !== layerSizes.length - 1) {
+        throw new ModelFormatError(`architecture.activations must have ${layerSizes.length - 1} entries, one per non-input layer`);
+    }
+    layerActivations.forEach((name: unknown, l: number) => {
+        if (!(typeof name === 'string' && Object.hasOwn(activations, name))) {
+            throw new ModelFormatError(`Unknown activation "${name}" for layer ${l + 1}`);
+        }
+    });
+
+    // Inputs
+    if (!Array.isArray(model.inputFeatures) || model.inputFeatures.length !== layerSizes[0] ||
+        model.inputFeatures.some((name: unknown) => typeof name !== 'string')) {
+        throw new ModelFormatError(`inputFeatures must name each of the ${layerSizes[0]} inputs`);
+    }
+    model.inputFeatures.forEach((name: string) => {
+        if (!Object.hasOwn(features, name)) {
+            throw new ModelFormatError(`Unknown input feature "${name}"`);
+        }
+    });
+    for (const key of ['width', 'height', 'velocityOffset', 'velocityRange', 'pipeSpeedRange']) {
+        if (!Number.isFinite(model.normalization?.[key])) {
+            throw new ModelFormatError(`normalization.${key} must be a number`);
+        }
+    }
+
+    const physicsProblem = physicsError(model.physics);
+    if (physicsProblem) {
+        throw new ModelFormatError(`Invalid physics: ${physicsProblem}`);
+    }
+
+    // Training metadata
+    const training = model.training;
+    if (!training || typeof training !== 'object') {
+        throw new ModelFormatError('Model file has no training metadata');
+    }
+    if (!(typeof training.loss === 'string' && Object.hasOwn(losses, training.loss))) {
+        throw new ModelFormatError(`Unknown loss function "${training.loss}" in training metadata`);
+    }
+    const lossProblem = lossActivationError(training.loss, layerActivations[layerActivations.length - 1]);
+    if (lossProblem) {
+        throw new ModelFormatError(`Invalid training metadata: ${lossProblem}`);
+    }
+    if (!(typeof training.optimizer === 'string' && Object.hasOwn(optimizers, training.optimizer))) {
+        throw new ModelFormatError(`Unknown optimizer "${training.optimizer}" in training metadata`);
+    }
+
+    // Parameter shapes
+    if (!Array.isArray(model.weights) || model.weights.length !== layerSizes.length - 1) {
+        throw new ModelFormatError(`weights must have ${layerSizes.length - 1} layers`);
+    }
+    if (!Array.isArray(model.biases) || model.biases.length !== layerSizes.length - 1) {
+        throw new ModelFormatError(`biases must have ${layerSizes.length - 1} layers`);
+    }
+    for (let l = 0; l < layerSizes.length - 1; l++) {
+        const rows = layerSizes[l];
+        const cols = layerSizes[l + 1];
+        const layer = model.weights[l];
+        if (!Array.isArray(layer) || layer.length !== rows ||
+            layer.some((row: unknown) => !Array.isArray(row) || row.length !== cols)) {
+            throw new ModelFormatError(`Weights for layer ${l + 1} should be ${rows}×${cols}`);
+        }
+        if (layer.some((row: unknown[]) => row.some(value => !Number.isFinite(value)))) {
+            throw new ModelFormatError(`Weights for layer ${l + 1} contain non-numeric values`);
+        }
+        const bias = model.biases[l];
+        if (!Array.isArray(bias) || bias.length !== cols || bias.some((value: unknown) => !Number.isFinite(value))) {
+            throw new ModelFormatError(`Biases for layer ${l + 1} should be ${cols} numbers`);
+        }
+    }
+
+    const expected = computeChecksum(model);
+    if (model.checksum !== expected) {
+        throw new ModelFormatError(`Checksum mismatch (file says ${model.checksum}, contents hash to ${expected}); the file may be corrupted or hand-edited`);
+    }
+}
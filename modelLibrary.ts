@@ -0,0 +1,141 @@
+import { downloadFile, toFileName } from "./files";
+import { ModelFile, parseModelFile } from "./modelFormat";
+import { ModelStore, SavedModel } from "./modelStore";
+import { defaultPhysics, describePhysics } from "./physics";
+
+/**
+ * Model library panel: save, list, load, delete, import and export models
+ */
+export class ModelLibrary {
+    private store: ModelStore;
+    private nameInput: HTMLInputElement;
+    private saveBtn: HTMLButtonElement;
+    private exportBtn: HTMLButtonElement;
+    private importInput: HTMLInputElement;
+    private list: HTMLElement;
+    private status: HTMLElement;
+
+    // Provides the model to save, and receives the model to load
+    private getCurrentModel: () => ModelFile;
+    private onLoad: (model: ModelFile, name: string) => void;
+    // Called after the list of saved models is reloaded
+    onChange: (() => void) | null = null;
+
+    constructor(
+        store: ModelStore,
+        getCurrentModel: () => ModelFile,
+        onLoad: (model: ModelFile, name: string) => void
+    ) {
+        this.store = store;
+        this.getCurrentModel = getCurrentModel;
+        this.onLoad = onLoad;
+
+        this.nameInput = document.getElementById('modelNameInput') as HTMLInputElement;
+        this.saveBtn = document.getElementById('saveModelBtn') as HTMLButtonElement;
+        this.exportBtn = document.getElementById('exportModelBtn') as HTMLButtonElement;
+        this.importInput = document.getElementById('importModelInput') as HTMLInputElement;
+        this.list = document.getElementById('modelList') as HTMLElement;
+        this.status = document.getElementById('modelStatus') as HTMLElement;
+
+        this.saveBtn.addEventListener('click', () => this.saveCurrent());
+        this.exportBtn.addEventListener('click', () => this.exportCurrent());
+        this.importInput.addEventListener('change', () => this.importFiles());
+
+        this.refresh();
+    }
+
+    async saveCurrent() {
+        const name = this.nameInput.value.trim() || `Model ${new Date().toLocaleString()}`;
+        await this.run(async () => {
+            await this.store.save(name, this.getCurrentModel());
+            this.nameInput.value = '';
+            this.setStatus(`Saved "${name}"`);
+        });
+    }
+
+    exportCurrent() {
+        const name = this.nameInput.value.trim() || 'model';
+        downloadFile(toFileName(name, 'json'), JSON.stringify(this.getCurrentModel(), null, 2));
+    }
+
+    async importFiles() {
+        const files = Array.from(this.importInput.files ?? []);
+        await this.run(async () => {
+            for (const file of files) {
+                // Validate (and migrate) before anything is stored
+                const model = parseModelFile(await file.text());
+                await this.store.save(file.name.replace(/\.json$/i, ''), model);
+            }
+            this.setStatus(`Imported ${files.length} model${files.length === 1 ? '' : 's'}`);
+        });
+        this.importInput.value = '';
+    }
+
+    async refresh() {
+        let models: SavedModel[];
+        try {
+            models = await this.store.list();
+        } catch (e) {
+            this.setStatus(`Model storage unavailable: ${(e as Error).message}`, true);
+            return;
+        }
+
+        this.list.replaceChildren(...models.map(saved => this.renderEntry(saved)));
+        if (models.length === 0) {
+            const empty = document.createElement('li');
+            empty.textContent = 'No saved models';
+            this.list.appendChild(empty);
+        }
+        if (this.onChange) this.onChange();
+    }
+
+    private renderEntry(saved: SavedModel): HTMLElement {
+        const item = document.createElement('li');
+
+        const label = document.createElement('span');
+        const date = new Date(saved.savedAt).toLocaleString();
+        const architecture = saved.model.architecture.layerSizes.join(' → ');
+        // Models stored before physics were recorded are migrated on load, not in the store
+        const physics = describePhysics(saved.model.physics ?? defaultPhysics());
+        label.textContent = `${saved.name} · best ${saved.bestScore} · ${architecture} · ${physics} physics · ${date}`;
+
+        const loadBtn = this.button('Load', () => this.run(async () => {
+            this.onLoad(saved.model, saved.name);
+            this.setStatus(`Loaded "${saved.name}"`);
+        }));
+        const exportBtn = this.button('Export', () => {
+            downloadFile(toFileName(saved.name, 'json'), JSON.stringify(saved.model, null, 2));
+        });
+        const deleteBtn = this.button('Delete', () => this.run(async () => {
+            await this.store.delete(saved.id);
+            this.setStatus(`Deleted "${saved.name}"`);
+        }));
+
+        item.append(label, loadBtn, exportBtn, deleteBtn);
+        return item;
+    }
+
+    private button(text: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    /**
+     * Run a store operation, reporting failures and refreshing the list afterwards
+     */
+    private async run(action: () => Promise<void>) {
+        try {
+            await action();
+        } catch (e) {
+            this.setStatus((e as Error).message, true);
+        }
+        await this.refresh();
+    }
+
+    private setStatus(message: string, isError = false) {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+}
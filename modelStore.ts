@@ -0,0 +1,74 @@
+import { ModelFile } from "./modelFormat";
+
+export type SavedModel = {
+    id: number;
+    name: string;
+    savedAt: string;
+    bestScore: number;
+    model: ModelFile;
+};
+
+/**
+ * Persists model files in the browser's IndexedDB
+ */
+export class ModelStore {
+    private dbName: string;
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(dbName = 'flappy-nn') {
+        this.dbName = dbName;
+    }
+
+    async save(name: string, model: ModelFile): Promise<SavedModel> {
+        const record = {
+            name,
+            savedAt: model.training.savedAt,
+            bestScore: model.training.bestScore,
+            model
+        };
+        const id = await this.request<IDBValidKey>('readwrite', store => store.add(record));
+        return { ...record, id: id as number };
+    }
+
+    /**
+     * All saved models, newest first
+     */
+    async list(): Promise<SavedModel[]> {
+        const records = await this.request<SavedModel[]>('readonly', store => store.getAll());
+        return records.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    }
+
+    async get(id: number): Promise<SavedModel | undefined> {
+        return this.request<SavedModel | undefined>('readonly', store => store.get(id));
+    }
+
+    async delete(id: number): Promise<void> {
+        await this.request('readwrite', store => store.delete(id));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore('models', { keyPath: 'id', autoIncrement: true });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    /**
+     * Run a single request against the models store
+     */
+    private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = action(db.transaction('models', mode).objectStore('models'));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -1,38 +1,88 @@
-import { Game, GameState } from "./game";
+import { ActivationName, getActivation } from "./activations";
+import { DEFAULT_FEATURES, encodeFeatures, FeatureName, getFeature } from "./features";
+import { GameState, Normalization } from "./game";
+import { getLoss, lossActivationError, LossName } from "./losses";
+import {
+    checkNormalization,
+    createModelFile,
+    DEFAULT_NORMALIZATION,
+    defaultTrainingMetadata,
+    ModelFile,
+    parseModelFile,
+    TrainingMetadata
+} from "./modelFormat";
+import { createOptimizer, Optimizer, OptimizerName, SGD } from "./optimizers";
+import { defaultPhysics, PhysicsConfig } from "./physics";
+import { Random } from "./random";
+
+export type TrainingSample = {
+    inputs: number[];
+    target: number[];
+    // Scales this sample's gradient (default 1), e.g. by its advantage in policy-gradient training
+    weight?: number;
+};
 
 export class NeuralNetwork {
+    public layerSizes: number[];
     public inputSize: number;
-    public hiddenSize: number
     public outputSize: number;
+    public random: Random;
 
-    private weightsIH: number[][]; // Weights from Input to Hidden layer
-    private weightsHO: number[][]; // Weights from Hidden to Output layer
+    // activations[l] is applied to layer l + 1
+    public activations: ActivationName[];
 
-    private biasH: number[]; // Biases for Hidden layer
-    private biasO: number[]; // Biases for Output layer
+    // Game state features fed to the input layer, in order
+    public inputFeatures: FeatureName[];
 
-    // Store last activations for backpropagation
-    private lastInputs: number[] | null;
-    private lastHidden: number[] | null;
-    private lastOutput: number[] | null;
+    // weights[l][i][j] connects node i of layer l to node j of layer l + 1
+    private weights: number[][][];
 
-    constructor(inputSize = 4, hiddenSize = 8, outputSize = 1) {
-        this.inputSize = inputSize;
-        this.hiddenSize = hiddenSize;
-        this.outputSize = outputSize;
+    // biases[l] holds the biases of layer l + 1
+    private biases: number[][];
 
-        // Initialize weights with Xavier initialization
-        this.weightsIH = this.initializeWeights(inputSize, hiddenSize);
-        this.weightsHO = this.initializeWeights(hiddenSize, outputSize);
+    // Loss minimized by training and reported back to the trainer
+    public loss: LossName = 'mse';
 
-        // Initialize biases
-        this.biasH = new Array(hiddenSize).fill(0);
-        this.biasO = new Array(outputSize).fill(0);
+    // Optimizer and its state (momentum, moment estimates...) for this network's parameters
+    public optimizer: Optimizer;
+
+    // Store last activations of every layer (inputs first) for backpropagation
+    private lastActivations: number[][] | null;
+
+    constructor(
+        layerSizes: number[] = [4, 8, 1],
+        random: Random = new Random(),
+        activations: ActivationName[] = [],
+        inputFeatures: FeatureName[] = DEFAULT_FEATURES
+    ) {
+        if (layerSizes.length < 2 || layerSizes.some(size => !Number.isInteger(size) || size < 1)) {
+            throw new Error(`Invalid layer sizes: [${layerSizes.join(', ')}]`);
+        }
+
+        this.layerSizes = [...layerSizes];
+        this.inputSize = layerSizes[0];
+        this.outputSize = layerSizes[layerSizes.length - 1];
+        this.random = random;
+        this.inputFeatures = inputFeatures.map(name => getFeature(name).name);
+
+        // Layers without an explicit activation default to sigmoid
+        this.activations = [];
+        for (let l = 0; l < layerSizes.length - 1; l++) {
+            this.activations.push(getActivation(activations[l] ?? 'sigmoid').name);
+        }
+
+        // Initialize weights and biases between each pair of layers
+        this.weights = [];
+        this.biases = [];
+        for (let l = 0; l < layerSizes.length - 1; l++) {
+            this.weights.push(this.initializeWeights(layerSizes[l], layerSizes[l + 1]));
+            this.biases.push(new Array(layerSizes[l + 1]).fill(0));
+        }
+
+        this.optimizer = new SGD();
 
         // Store activations for backpropagation
-        this.lastInputs = null;
-        this.lastHidden = null;
-        this.lastOutput = null;
+        this.lastActivations = null;
     }
 
     initializeWeights(rows: number, cols: number) {
@@ -41,106 +91,157 @@ export class NeuralNetwork {
         for (let i = 0; i < rows; i++) {
             weights[i] = [];
             for (let j = 0; j < cols; j++) {
-                weights[i][j] = Math.random() * 2 - 1;
+                weights[i][j] = this.random.range(-1, 1);
             }
         }
         return weights;
     }
 
-    sigmoid(x: number): number {
-        return 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
-    }
-
-    sigmoidDerivative(x: number): number {
-        return x * (1 - x);
-    }
-
     forwardPass(inputs: number[]): number[] {
         if (inputs.length !== this.inputSize) {
             throw new Error(`Expected ${this.inputSize} inputs, got ${inputs.length}`);
         }
 
-        this.lastInputs = [...inputs];
-
-        // Input to Hidden
-        this.lastHidden = [];
-        for (let h = 0; h < this.hiddenSize; h++) {
-            let sum = this.biasH[h];
-            for (let i = 0; i < this.inputSize; i++) {
-                sum += inputs[i] * this.weightsIH[i][h];
+        this.lastActivations = [[...inputs]];
+
+        // Propagate through each layer in turn
+        for (let l = 0; l < this.weights.length; l++) {
+            const previous = this.lastActivations[l];
+            const activation = getActivation(this.activations[l]);
+            const layer: number[] = [];
+            for (let j = 0; j < this.layerSizes[l + 1]; j++) {
+                let sum = this.biases[l][j];
+                for (let i = 0; i < previous.length; i++) {
+                    sum += previous[i] * this.weights[l][i][j];
+                }
+                layer[j] = activation.fn(sum);
             }
-            this.lastHidden[h] = this.sigmoid(sum);
+            this.lastActivations.push(layer);
         }
 
-        // Hidden to Output
-        this.lastOutput = [];
-        for (let o = 0; o < this.outputSize; o++) {
-            let sum = this.biasO[o];
-            for (let h = 0; h < this.hiddenSize; h++) {
-                sum += this.lastHidden[h] * this.weightsHO[h][o];
-            }
-            this.lastOutput[o] = this.sigmoid(sum);
-        }
-
-        return this.lastOutput;
+        return this.lastActivations[this.lastActivations.length - 1];
     }
 
     /**
-     * Backpropagation training step
+     * Backpropagate one sample without changing any weights
      * @param {Array} inputs - Input values
      * @param {Array} targets - Expected output values
-     * @param {number} learningRate - Learning rate (default 0.1)
-     * @returns {number} - Mean squared error
+     * @returns {Object} - Loss gradients shaped like the weights and biases, and the sample's loss
      */
-    train(inputs: number[], targets: number[], learningRate: number = 0.1): number {
+    computeGradients(inputs: number[], targets: number[]) {
         // Forward pass
         const outputs = this.forwardPass(inputs);
+        const layerOutputs = this.lastActivations!;
 
         // Calculate output layer errors
-        const outputErrors: number[] = [];
-        let mse = 0;
+        const outputActivation = getActivation(this.activations[this.activations.length - 1]);
+        const loss = getLoss(this.loss);
+        let errors: number[] = [];
+        let totalLoss = 0;
         for (let o = 0; o < this.outputSize; o++) {
-            const error = targets[o] - outputs[o];
-            outputErrors[o] = error * this.sigmoidDerivative(outputs[o]);
-            mse += error * error;
-        }
-        mse /= this.outputSize;
-
-        // Calculate hidden layer errors
-        const hiddenErrors = [];
-        for (let h = 0; h < this.hiddenSize; h++) {
-            let error = 0;
-            for (let o = 0; o < this.outputSize; o++) {
-                error += outputErrors[o] * this.weightsHO[h][o];
+            if (loss.name === 'bce' && outputActivation.name === 'sigmoid') {
+                // Sigmoid and cross-entropy derivatives cancel, avoiding division by a saturated output
+                errors[o] = targets[o] - outputs[o];
+            } else {
+                errors[o] = -loss.derivative(outputs[o], targets[o]) * outputActivation.derivative(outputs[o]);
             }
-            hiddenErrors[h] = error * this.sigmoidDerivative(this.lastHidden![h]);
+            totalLoss += loss.fn(outputs[o], targets[o]);
         }
 
-        // Update weights: Hidden -> Output
-        for (let h = 0; h < this.hiddenSize; h++) {
-            for (let o = 0; o < this.outputSize; o++) {
-                this.weightsHO[h][o] += learningRate * outputErrors[o] * this.lastHidden![h];
+        const weightGrads: number[][][] = [];
+        const biasGrads: number[][] = [];
+
+        // Walk backwards, propagating errors through each layer's weights
+        for (let l = this.weights.length - 1; l >= 0; l--) {
+            const previous = layerOutputs[l];
+
+            let previousErrors: number[] = [];
+            if (l > 0) {
+                const previousActivation = getActivation(this.activations[l - 1]);
+                for (let i = 0; i < previous.length; i++) {
+                    let error = 0;
+                    for (let j = 0; j < errors.length; j++) {
+                        error += errors[j] * this.weights[l][i][j];
+                    }
+                    previousErrors[i] = error * previousActivation.derivative(previous[i]);
+                }
             }
-        }
 
-        // Update biases: Output
-        for (let o = 0; o < this.outputSize; o++) {
-            this.biasO[o] += learningRate * outputErrors[o];
+            // Errors point towards the target, gradients point away from it
+            weightGrads[l] = previous.map(p => errors.map(e => -e * p));
+            biasGrads[l] = errors.map(e => -e);
+
+            errors = previousErrors;
         }
 
-        // Update weights: Input -> Hidden
-        for (let i = 0; i < this.inputSize; i++) {
-            for (let h = 0; h < this.hiddenSize; h++) {
-                this.weightsIH[i][h] += learningRate * hiddenErrors[h] * this.lastInputs![i];
+        return { weightGrads, biasGrads, loss: totalLoss / this.outputSize };
+    }
+
+    /**
+     * Mini-batch training step: gradients are averaged over the batch
+     * and applied once through the network's optimizer
+     * @param {Array} batch - Samples to train on
+     * @param {number} learningRate - Learning rate (default 0.1)
+     * @returns {number} - Loss averaged over the batch, scaled by any sample weights
+     */
+    trainBatch(batch: TrainingSample[], learningRate: number = 0.1): number {
+        if (batch.length === 0) return 0;
+
+        const weightSums = this.weights.map(layer => layer.map(row => new Array(row.length).fill(0)));
+        const biasSums = this.biases.map(layer => new Array(layer.length).fill(0));
+        let totalLoss = 0;
+
+        for (const sample of batch) {
+            const { weightGrads, biasGrads, loss } = this.computeGradients(sample.inputs, sample.target);
+            const weight = sample.weight ?? 1;
+            for (let l = 0; l < weightSums.length; l++) {
+                for (let i = 0; i < weightSums[l].length; i++) {
+                    for (let j = 0; j < weightSums[l][i].length; j++) {
+                        weightSums[l][i][j] += weight * weightGrads[l][i][j];
+                    }
+                }
+                for (let j = 0; j < biasSums[l].length; j++) {
+                    biasSums[l][j] += weight * biasGrads[l][j];
+                }
             }
+            totalLoss += weight * loss;
         }
 
-        // Update biases: Hidden
-        for (let h = 0; h < this.hiddenSize; h++) {
-            this.biasH[h] += learningRate * hiddenErrors[h];
+        // Same layout as parameterArrays()
+        const grads = [...weightSums.flat(), ...biasSums].map(values => values.map(g => g / batch.length));
+        this.optimizer.step(this.parameterArrays(), grads, learningRate);
+
+        return totalLoss / batch.length;
+    }
+
+    /**
+     * Backpropagation training step on a single sample
+     * @param {Array} inputs - Input values
+     * @param {Array} targets - Expected output values
+     * @param {number} learningRate - Learning rate (default 0.1)
+     * @returns {number} - Loss
+     */
+    train(inputs: number[], targets: number[], learningRate: number = 0.1): number {
+        return this.trainBatch([{ inputs, target: targets }], learningRate);
+    }
+
+    /**
+     * Switch the loss function used for gradients and reported loss.
+     * Throws if the loss can't train this network's output activation.
+     */
+    setLoss(name: LossName) {
+        const problem = lossActivationError(name, this.activations[this.activations.length - 1]);
+        if (problem) {
+            throw new Error(problem);
         }
+        this.loss = getLoss(name).name;
+    }
 
-        return mse;
+    /**
+     * Switch optimizer, discarding any accumulated optimizer state
+     */
+    setOptimizer(name: OptimizerName) {
+        this.optimizer = createOptimizer(name);
     }
 
     /**
@@ -149,88 +250,187 @@ export class NeuralNetwork {
      * @returns {boolean} - True if should flap
      */
     predict(gameState: GameState): boolean {
-        if (!gameState) {
-            throw new Error('Invalid game state for prediction');
+        const output = this.forwardPass(this.stateInputs(gameState));
+
+        // Two outputs are Q-values for (don't flap, flap): pick the larger
+        if (this.outputSize === 2) {
+            return output[1] > output[0];
         }
-        const inputs = [
-            gameState.birdY,
-            gameState.birdVelocity,
-            gameState.pipeDistance,
-            gameState.pipeGapY
-        ];
-        const output = this.forwardPass(inputs);
         return output[0] > 0.5;
     }
 
+    /**
+     * Flap probability of a single sigmoid output, for sampling actions
+     * @param {Object} gameState - Normalized game state
+     * @returns {number} - Output value in [0, 1]
+     */
+    flapProbability(gameState: GameState): number {
+        return this.forwardPass(this.stateInputs(gameState))[0];
+    }
+
+    /**
+     * This network's input features, picked out of a game state
+     */
+    stateInputs(gameState: GameState): number[] {
+        if (this.inputFeatures.length !== this.inputSize) {
+            throw new Error(`Network has ${this.inputSize} inputs but ${this.inputFeatures.length} input features`);
+        }
+        return encodeFeatures(gameState, this.inputFeatures);
+    }
+
     /**
      * Get network weights for visualization
      */
     getWeights() {
         return {
-            inputToHidden: this.weightsIH,
-            hiddenToOutput: this.weightsHO,
-            biasHidden: this.biasH,
-            biasOutput: this.biasO
+            weights: this.weights,
+            biases: this.biases
         };
     }
 
     /**
-     * Get last activations for visualization
+     * Replace all weights and biases, e.g. with ones trained elsewhere.
+     * Optimizer state is left as it is.
      */
-    getActivations() {
-        return {
-            inputs: this.lastInputs || new Array(this.inputSize).fill(0),
-            hidden: this.lastHidden || new Array(this.hiddenSize).fill(0),
-            output: this.lastOutput || new Array(this.outputSize).fill(0)
-        };
+    setWeights(weights: number[][][], biases: number[][]) {
+        const matches = weights.length === this.weights.length && biases.length === this.biases.length &&
+            this.weights.every((layer, l) =>
+                weights[l].length === layer.length &&
+                weights[l].every(row => row.length === layer[0].length) &&
+                biases[l].length === this.biases[l].length);
+        if (!matches) {
+            throw new Error(`Weights don't fit a [${this.layerSizes.join(', ')}] network`);
+        }
+
+        this.weights = weights.map(layer => layer.map(row => [...row]));
+        this.biases = biases.map(layer => [...layer]);
+    }
+
+    /**
+     * Get last activations of every layer for visualization
+     */
+    getActivations(): number[][] {
+        return this.lastActivations || this.layerSizes.map(size => new Array(size).fill(0));
     }
 
     /**
      * Copy the network
      */
     copy() {
-        const nn = new NeuralNetwork(this.inputSize, this.hiddenSize, this.outputSize);
+        const nn = new NeuralNetwork(this.layerSizes, this.random, this.activations, this.inputFeatures);
 
         // Deep copy weights
-        for (let i = 0; i < this.inputSize; i++) {
-            for (let h = 0; h < this.hiddenSize; h++) {
-                nn.weightsIH[i][h] = this.weightsIH[i][h];
-            }
-        }
-        for (let h = 0; h < this.hiddenSize; h++) {
-            for (let o = 0; o < this.outputSize; o++) {
-                nn.weightsHO[h][o] = this.weightsHO[h][o];
-            }
-        }
-
-        nn.biasH = [...this.biasH];
-        nn.biasO = [...this.biasO];
+        nn.weights = this.weights.map(layer => layer.map(row => [...row]));
+        nn.biases = this.biases.map(layer => [...layer]);
+        nn.optimizer = this.optimizer.copy();
+        nn.loss = this.loss;
 
         return nn;
     }
 
+    /**
+     * Every weight and bias array, for operating on all parameters at once
+     */
+    private parameterArrays(): number[][] {
+        return [...this.weights.flat(), ...this.biases];
+    }
 
+    /**
+     * Randomly perturb parameters in place
+     * @param {number} rate - Probability that each parameter is mutated
+     * @param {number} strength - Standard deviation of the added noise
+     */
+    mutate(rate: number, strength: number) {
+        for (const values of this.parameterArrays()) {
+            for (let i = 0; i < values.length; i++) {
+                if (this.random.next() < rate) {
+                    values[i] += this.random.gaussian() * strength;
+                }
+            }
+        }
+    }
 
     /**
-     * Export weights as JSON
+     * Uniform crossover: each parameter of the child comes from either parent
      */
-    toJSON() {
-        return JSON.stringify({
-            weightsIH: this.weightsIH,
-            weightsHO: this.weightsHO,
-            biasH: this.biasH,
-            biasO: this.biasO
+    crossover(partner: NeuralNetwork): NeuralNetwork {
+        const child = this.copy();
+        const childParams = child.parameterArrays();
+        const partnerParams = partner.parameterArrays();
+
+        for (let a = 0; a < childParams.length; a++) {
+            for (let i = 0; i < childParams[a].length; i++) {
+                if (this.random.next() < 0.5) {
+                    childParams[a][i] = partnerParams[a][i];
+                }
+            }
+        }
+        return child;
+    }
+
+    /**
+     * Export as a versioned model file
+     * @param {Object} metadata - Training details to record alongside the weights
+     * @param {Object} normalization - Constants the inputs were scaled with
+     * @param {Object} physics - Game physics the network was trained under
+     */
+    toModelFile(
+        metadata: Partial<TrainingMetadata> = {},
+        normalization: Normalization = DEFAULT_NORMALIZATION,
+        physics: PhysicsConfig = defaultPhysics()
+    ): ModelFile {
+        return createModelFile({
+            architecture: {
+                layerSizes: [...this.layerSizes],
+                activations: [...this.activations]
+            },
+            inputFeatures: [...this.inputFeatures],
+            normalization: { ...normalization },
+            physics: { ...physics },
+            training: {
+                ...defaultTrainingMetadata(),
+                loss: this.loss,
+                optimizer: this.optimizer.name,
+                ...metadata
+            },
+            weights: this.weights.map(layer => layer.map(row => [...row])),
+            biases: this.biases.map(layer => [...layer])
         });
     }
 
     /**
-     * Import weights from JSON
+     * Export as versioned model file JSON
+     */
+    toJSON(
+        metadata: Partial<TrainingMetadata> = {},
+        normalization: Normalization = DEFAULT_NORMALIZATION,
+        physics: PhysicsConfig = defaultPhysics()
+    ) {
+        return JSON.stringify(this.toModelFile(metadata, normalization, physics));
+    }
+
+    /**
+     * Import a model file, replacing this network's architecture and weights.
+     * Older unversioned files are migrated; invalid ones, and ones scaled for a
+     * different game, throw a ModelFormatError and leave the network untouched.
+     * @param {Object} normalization - Constants the game running the network scales inputs with
+     * @returns {ModelFile} - The validated file, for its metadata
      */
-    fromJSON(json: string) {
-        const data = JSON.parse(json);
-        this.weightsIH = data.weightsIH;
-        this.weightsHO = data.weightsHO;
-        this.biasH = data.biasH;
-        this.biasO = data.biasO;
+    fromJSON(json: string, normalization: Normalization = DEFAULT_NORMALIZATION): ModelFile {
+        const model = parseModelFile(json);
+        checkNormalization(model, normalization);
+
+        this.layerSizes = [...model.architecture.layerSizes];
+        this.inputSize = this.layerSizes[0];
+        this.outputSize = this.layerSizes[this.layerSizes.length - 1];
+        this.activations = [...model.architecture.activations];
+        this.inputFeatures = [...model.inputFeatures];
+        this.weights = model.weights;
+        this.biases = model.biases;
+        this.loss = model.training.loss;
+        this.optimizer = createOptimizer(model.training.optimizer);
+        this.lastActivations = null;
+
+        return model;
     }
 }
@@ -0,0 +1,195 @@
+export type OptimizerName = 'sgd' | 'momentum' | 'rmsprop' | 'adam';
+
+/**
+ * Updates parameters in place from their gradients.
+ * Parameters and gradients are lists of arrays with matching shapes;
+ * any per-parameter state is kept by the optimizer, shaped the same way.
+ */
+export interface Optimizer {
+    name: OptimizerName;
+    step(params: number[][], grads: number[][], learningRate: number): void;
+    copy(): Optimizer;
+    /** Accumulated state as plain data, e.g. to hand to a worker */
+    getState(): OptimizerState;
+    setState(state: OptimizerState): void;
+}
+
+export type OptimizerState = Record<string, number[][] | number | null>;
+
+function zerosLike(arrays: number[][]): number[][] {
+    return arrays.map(values => new Array(values.length).fill(0));
+}
+
+function cloneState(state: number[][] | null): number[][] | null {
+    return state ? state.map(values => [...values]) : null;
+}
+
+export class SGD implements Optimizer {
+    name: OptimizerName = 'sgd';
+
+    step(params: number[][], grads: number[][], learningRate: number) {
+        for (let a = 0; a < params.length; a++) {
+            for (let i = 0; i < params[a].length; i++) {
+                params[a][i] -= learningRate * grads[a][i];
+            }
+        }
+    }
+
+    copy() {
+        return new SGD();
+    }
+
+    getState(): OptimizerState {
+        return {};
+    }
+
+    setState() {}
+}
+
+export class Momentum implements Optimizer {
+    name: OptimizerName = 'momentum';
+    private beta: number;
+    private velocity: number[][] | null = null;
+
+    constructor(beta = 0.9) {
+        this.beta = beta;
+    }
+
+    step(params: number[][], grads: number[][], learningRate: number) {
+        if (!this.velocity) this.velocity = zerosLike(params);
+
+        for (let a = 0; a < params.length; a++) {
+            for (let i = 0; i < params[a].length; i++) {
+                this.velocity[a][i] = this.beta * this.velocity[a][i] + grads[a][i];
+                params[a][i] -= learningRate * this.velocity[a][i];
+            }
+        }
+    }
+
+    copy() {
+        const optimizer = new Momentum(this.beta);
+        optimizer.velocity = cloneState(this.velocity);
+        return optimizer;
+    }
+
+    getState(): OptimizerState {
+        return { velocity: cloneState(this.velocity) };
+    }
+
+    setState(state: OptimizerState) {
+        this.velocity = cloneState(state.velocity as number[][] | null);
+    }
+}
+
+export class RMSProp implements Optimizer {
+    name: OptimizerName = 'rmsprop';
+    private decay: number;
+    private epsilon: number;
+    private meanSquare: number[][] | null = null;
+
+    constructor(decay = 0.9, epsilon = 1e-8) {
+        this.decay = decay;
+        this.epsilon = epsilon;
+    }
+
+    step(params: number[][], grads: number[][], learningRate: number) {
+        if (!this.meanSquare) this.meanSquare = zerosLike(params);
+
+        for (let a = 0; a < params.length; a++) {
+            for (let i = 0; i < params[a].length; i++) {
+                const g = grads[a][i];
+                this.meanSquare[a][i] = this.decay * this.meanSquare[a][i] + (1 - this.decay) * g * g;
+                params[a][i] -= learningRate * g / (Math.sqrt(this.meanSquare[a][i]) + this.epsilon);
+            }
+        }
+    }
+
+    copy() {
+        const optimizer = new RMSProp(this.decay, this.epsilon);
+        optimizer.meanSquare = cloneState(this.meanSquare);
+        return optimizer;
+    }
+
+    getState(): OptimizerState {
+        return { meanSquare: cloneState(this.meanSquare) };
+    }
+
+    setState(state: OptimizerState) {
+        this.meanSquare = cloneState(state.meanSquare as number[][] | null);
+    }
+}
+
+export class Adam implements Optimizer {
+    name: OptimizerName = 'adam';
+    private beta1: number;
+    private beta2: number;
+    private epsilon: number;
+    private m: number[][] | null = null; // First moment estimates
+    private v: number[][] | null = null; // Second moment estimates
+    private t = 0;
+
+    constructor(beta1 = 0.9, beta2 = 0.999, epsilon = 1e-8) {
+        this.beta1 = beta1;
+        this.beta2 = beta2;
+        this.epsilon = epsilon;
+    }
+
+    step(params: number[][], grads: number[][], learningRate: number) {
+        if (!this.m || !this.v) {
+            this.m = zerosLike(params);
+            this.v = zerosLike(params);
+        }
+        this.t++;
+
+        // Bias corrections for the zero-initialized moment estimates
+        const correction1 = 1 - Math.pow(this.beta1, this.t);
+        const correction2 = 1 - Math.pow(this.beta2, this.t);
+
+        for (let a = 0; a < params.length; a++) {
+            for (let i = 0; i < params[a].length; i++) {
+                const g = grads[a][i];
+                this.m[a][i] = this.beta1 * this.m[a][i] + (1 - this.beta1) * g;
+                this.v[a][i] = this.beta2 * this.v[a][i] + (1 - this.beta2) * g * g;
+                const mHat = this.m[a][i] / correction1;
+                const vHat = this.v[a][i] / correction2;
+                params[a][i] -= learningRate * mHat / (Math.sqrt(vHat) + this.epsilon);
+            }
+        }
+    }
+
+    copy() {
+        const optimizer = new Adam(this.beta1, this.beta2, this.epsilon);
+        optimizer.m = cloneState(this.m);
+        optimizer.v = cloneState(this.v);
+        optimizer.t = this.t;
+        return optimizer;
+    }
+
+    getState(): OptimizerState {
+        return { m: cloneState(this.m), v: cloneState(this.v), t: this.t };
+    }
+
+    setState(state: OptimizerState) {
+        this.m = cloneState(state.m as number[][] | null);
+        this.v = cloneState(state.v as number[][] | null);
+        this.t = state.t as number;
+    }
+}
+
+export const optimizers: Record<OptimizerName, {
+    label: string;
+    defaultLearningRate: number;
+    create: () => Optimizer;
+}> = {
+    sgd: { label: 'SGD', defaultLearningRate: 0.1, create: () => new SGD() },
+    momentum: { label: 'Momentum', defaultLearningRate: 0.05, create: () => new Momentum() },
+    rmsprop: { label: 'RMSProp', defaultLearningRate: 0.01, create: () => new RMSProp() },
+    adam: { label: 'Adam', defaultLearningRate: 0.01, create: () => new Adam() }
+};
+
+export function createOptimizer(name: string): Optimizer {
+    if (!Object.hasOwn(optimizers, name)) {
+        throw new Error(`Unknown optimizer: ${name}`);
+    }
+    return optimizers[name as OptimizerName].create();
+}
@@ -0,0 +1,104 @@
+/**
+ * Physics the bird flies under. Difficulty profiles adjust gap height and
+ * spawn interval relative to these base values.
+ */
+export type PhysicsConfig = {
+    gravity: number;
+    flapForce: number;
+    terminalVelocity: number;
+    gapHeight: number;
+    pipeWidth: number;
+    // Frames between pipes
+    spawnInterval: number;
+};
+
+export type PhysicsPresetName = 'classic' | 'floaty' | 'hardcore';
+
+export interface PhysicsPreset {
+    name: PhysicsPresetName;
+    label: string;
+    physics: PhysicsConfig;
+}
+
+export const physicsPresets: Record<PhysicsPresetName, PhysicsPreset> = {
+    classic: {
+        name: 'classic',
+        label: 'Classic',
+        physics: { gravity: 0.6, flapForce: -8, terminalVelocity: 12, gapHeight: 150, pipeWidth: 60, spawnInterval: 100 }
+    },
+    floaty: {
+        name: 'floaty',
+        label: 'Floaty',
+        physics: { gravity: 0.3, flapForce: -5.5, terminalVelocity: 7, gapHeight: 170, pipeWidth: 60, spawnInterval: 110 }
+    },
+    hardcore: {
+        name: 'hardcore',
+        label: 'Hardcore',
+        physics: { gravity: 0.9, flapForce: -9.5, terminalVelocity: 16, gapHeight: 120, pipeWidth: 70, spawnInterval: 85 }
+    }
+};
+
+export const PHYSICS_KEYS: (keyof PhysicsConfig)[] = [
+    'gravity', 'flapForce', 'terminalVelocity', 'gapHeight', 'pipeWidth', 'spawnInterval'
+];
+
+// Space pipe gaps keep from the top of the screen and from the ground
+export const GAP_MARGIN = 80;
+
+// Ground height of the standard 400×600 game
+const DEFAULT_PLAYFIELD_HEIGHT = 550;
+
+// Longest wait between pipes: 10 seconds at 60 frames per second
+export const MAX_SPAWN_INTERVAL = 600;
+
+export function defaultPhysics(): PhysicsConfig {
+    return { ...physicsPresets.classic.physics };
+}
+
+/**
+ * The preset these physics match exactly, if any
+ */
+export function findPhysicsPreset(physics: PhysicsConfig): PhysicsPreset | null {
+    return Object.values(physicsPresets).find(preset =>
+        PHYSICS_KEYS.every(key => preset.physics[key] === physics[key])
+    ) ?? null;
+}
+
+/**
+ * Preset label, or "Custom" for hand-tuned physics
+ */
+export function describePhysics(physics: PhysicsConfig): string {
+    return findPhysicsPreset(physics)?.label ?? 'Custom';
+}
+
+/**
+ * Why these physics can't be simulated, or null if they can
+ * @param {number} playfieldHeight - Height above the ground the pipe gaps must fit in
+ */
+export function physicsError(physics: unknown, playfieldHeight = DEFAULT_PLAYFIELD_HEIGHT): string | null {
+    if (!physics || typeof physics !== 'object') {
+        return 'Physics settings are missing';
+    }
+    const values = physics as Record<string, unknown>;
+    for (const key of PHYSICS_KEYS) {
+        if (typeof values[key] !== 'number' || !Number.isFinite(values[key])) {
+            return `Physics setting ${key} must be a number`;
+        }
+    }
+
+    const { gravity, flapForce, terminalVelocity, gapHeight, pipeWidth, spawnInterval } = values as PhysicsConfig;
+    if (gravity <= 0 || flapForce >= 0 || terminalVelocity <= 0) {
+        return 'Gravity and terminal velocity must be positive, and flap force negative (upwards)';
+    }
+    if (gapHeight <= 0 || pipeWidth <= 0 || spawnInterval < 1) {
+        return 'Gap height, pipe width and spawn interval must be positive';
+    }
+    const maxGapHeight = playfieldHeight - 2 * GAP_MARGIN;
+    if (gapHeight > maxGapHeight) {
+        return `Gap height must be at most ${maxGapHeight} to fit between the ${GAP_MARGIN}px margins`;
+    }
+    if (spawnInterval > MAX_SPAWN_INTERVAL) {
+        return `Spawn interval must be at most ${MAX_SPAWN_INTERVAL} frames`;
+    }
+    return null;
+}
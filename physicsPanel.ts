@@ -0,0 +1,113 @@
+import {
+    describePhysics,
+    findPhysicsPreset,
+    PHYSICS_KEYS,
+    PhysicsConfig,
+    physicsError,
+    physicsPresets,
+    PhysicsPresetName
+} from "./physics";
+
+const FIELDS: Record<keyof PhysicsConfig, { label: string, step: number }> = {
+    gravity: { label: 'Gravity', step: 0.05 },
+    flapForce: { label: 'Flap Force', step: 0.5 },
+    terminalVelocity: { label: 'Terminal Velocity', step: 1 },
+    gapHeight: { label: 'Gap Height', step: 5 },
+    pipeWidth: { label: 'Pipe Width', step: 5 },
+    spawnInterval: { label: 'Spawn Interval', step: 5 }
+};
+
+/**
+ * Physics settings panel: a preset picker plus a field per setting.
+ * Editing a field switches the picker to "Custom".
+ */
+export class PhysicsPanel {
+    private physics: PhysicsConfig;
+    private presetSelect: HTMLSelectElement;
+    private inputs = {} as Record<keyof PhysicsConfig, HTMLInputElement>;
+    private status: HTMLElement;
+
+    // Receives valid physics whenever the settings change
+    private onChange: (physics: PhysicsConfig) => void;
+
+    constructor(physics: PhysicsConfig, onChange: (physics: PhysicsConfig) => void) {
+        this.physics = { ...physics };
+        this.onChange = onChange;
+
+        this.presetSelect = document.getElementById('physicsPresetSelect') as HTMLSelectElement;
+        this.status = document.getElementById('physicsStatus') as HTMLElement;
+        const fields = document.getElementById('physicsFields') as HTMLElement;
+
+        for (const preset of Object.values(physicsPresets)) {
+            const option = document.createElement('option');
+            option.value = preset.name;
+            option.textContent = preset.label;
+            this.presetSelect.appendChild(option);
+        }
+        const custom = document.createElement('option');
+        custom.value = 'custom';
+        custom.textContent = 'Custom';
+        this.presetSelect.appendChild(custom);
+
+        for (const key of PHYSICS_KEYS) {
+            const label = document.createElement('label');
+            const text = document.createElement('span');
+            text.textContent = `${FIELDS[key].label}:`;
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.step = String(FIELDS[key].step);
+            input.addEventListener('change', () => this.readFields());
+            label.append(text, input);
+            fields.appendChild(label);
+            this.inputs[key] = input;
+        }
+
+        this.presetSelect.addEventListener('change', () => {
+            const preset = physicsPresets[this.presetSelect.value as PhysicsPresetName];
+            if (preset) this.apply({ ...preset.physics });
+        });
+
+        this.show();
+    }
+
+    /**
+     * Show physics set elsewhere, without reporting a change
+     */
+    setPhysics(physics: PhysicsConfig) {
+        this.physics = { ...physics };
+        this.show();
+    }
+
+    private readFields() {
+        const physics = { ...this.physics };
+        for (const key of PHYSICS_KEYS) {
+            physics[key] = parseFloat(this.inputs[key].value);
+        }
+        this.apply(physics);
+    }
+
+    private apply(physics: PhysicsConfig) {
+        const problem = physicsError(physics);
+        if (problem) {
+            // Leave the bad value in place so it can be corrected
+            this.setStatus(problem, true);
+            return;
+        }
+        this.physics = physics;
+        this.show();
+        this.onChange({ ...physics });
+    }
+
+    private show() {
+        for (const key of PHYSICS_KEYS) {
+            this.inputs[key].value = String(this.physics[key]);
+        }
+        this.presetSelect.value = findPhysicsPreset(this.physics)?.name ?? 'custom';
+        this.setStatus(`${describePhysics(this.physics)} physics`);
+    }
+
+    private setStatus(message: string, isError = false) {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+}
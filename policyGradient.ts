@@ -0,0 +1,187 @@
+import { ActivationName } from "./activations";
+import { DEFAULT_FEATURES, FeatureName } from "./features";
+import { Game, GameState } from "./game";
+import { NeuralNetwork, TrainingSample } from "./neuralNetwork";
+import { Random } from "./random";
+
+export type PolicyGradientStats = {
+    episode: number;
+    episodeReturn: number;
+    averageReturn: number;
+    baseline: number;
+    lastScore: number;
+    bestScore: number;
+    loss: number;
+};
+
+/**
+ * Sample a flap from a flap probability. Temperature rescales the logit:
+ * above 1 is more random, below 1 more decisive, and 0 is greedy.
+ */
+export function sampleFlap(probability: number, temperature: number, random: Random): boolean {
+    if (temperature <= 0) return probability > 0.5;
+
+    const p = Math.min(Math.max(probability, 1e-7), 1 - 1e-7);
+    const logit = Math.log(p / (1 - p));
+    return random.next() < 1 / (1 + Math.exp(-logit / temperature));
+}
+
+/**
+ * REINFORCE policy gradient. The sigmoid output is the probability of flapping;
+ * actions are sampled from it, and after each episode the log-probability of every
+ * action taken is pushed up or down by how much better its discounted return was
+ * than a running baseline.
+ */
+export class PolicyGradient {
+    public policyNet: NeuralNetwork;
+    public random: Random;
+
+    // Hyperparameters
+    public gamma = 0.99;
+    public learningRate = 0.01;
+    public baselineDecay = 0.95;
+    public maxEpisodeFrames = 10000;
+    public rewards = {
+        alive: 0.1,
+        pipe: 1,
+        death: -1
+    };
+
+    // Undiscounted return of the latest finished episodes and their 100-episode average, for charting
+    public returnHistory: number[] = [];
+    public averageReturnHistory: number[] = [];
+    public historyLength = 1000;
+
+    private states: number[][] = [];
+    private actions: number[] = [];
+    private episodeRewards: number[] = [];
+    private episode = 0;
+    private baseline = 0;
+    private lastScore = 0;
+    private bestScore = 0;
+    private lastLoss = 0;
+
+    // Callbacks
+    onEpisodeEnd: ((stats: PolicyGradientStats) => void) | null = null;
+
+    constructor(
+        layerSizes: number[] = [4, 16, 1],
+        random: Random = new Random(),
+        inputFeatures: FeatureName[] = DEFAULT_FEATURES
+    ) {
+        if (layerSizes[layerSizes.length - 1] !== 1) {
+            throw new Error('A policy network needs exactly 1 output, the flap probability');
+        }
+        this.random = random;
+
+        // Cross-entropy on a sigmoid output makes the gradient (probability - action),
+        // which is exactly the gradient of -log π(action)
+        const activations: ActivationName[] = layerSizes.slice(1).map((_, l) => l === layerSizes.length - 2 ? 'sigmoid' : 'tanh');
+        this.policyNet = new NeuralNetwork(layerSizes, random, activations, inputFeatures);
+        this.policyNet.setLoss('bce');
+        this.policyNet.setOptimizer('adam');
+    }
+
+    /**
+     * Start a new episode on a fresh pipe sequence
+     */
+    startEpisode(game: Game) {
+        game.random.setSeed(this.random.int(0xffffffff));
+        game.start();
+        this.states = [];
+        this.actions = [];
+        this.episodeRewards = [];
+    }
+
+    /**
+     * Sample an action, advance the game one frame and record the reward,
+     * updating the policy when the episode ends. Replaces calling game.update().
+     */
+    step(game: Game) {
+        if (!game.isPlaying()) this.startEpisode(game);
+
+        const state = this.encode(game.getGameState());
+        const scoreBefore = game.score;
+
+        const flap = sampleFlap(this.policyNet.forwardPass(state)[0], 1, this.random);
+        if (flap) game.flap();
+        game.update();
+
+        const died = !game.isPlaying();
+        const truncated = !died && game.frameCount >= this.maxEpisodeFrames;
+
+        this.states.push(state);
+        this.actions.push(flap ? 1 : 0);
+        this.episodeRewards.push(died
+            ? this.rewards.death
+            : this.rewards.alive + (game.score - scoreBefore) * this.rewards.pipe);
+
+        if (died || truncated) {
+            if (truncated) game.gameOver();
+            this.finishEpisode(game.score);
+        }
+    }
+
+    getStats(): PolicyGradientStats {
+        const recent = this.returnHistory.slice(-100);
+        return {
+            episode: this.episode,
+            episodeReturn: this.returnHistory[this.returnHistory.length - 1] ?? 0,
+            averageReturn: recent.length > 0 ? recent.reduce((sum, r) => sum + r, 0) / recent.length : 0,
+            baseline: this.baseline,
+            lastScore: this.lastScore,
+            bestScore: this.bestScore,
+            loss: this.lastLoss
+        };
+    }
+
+    private finishEpisode(score: number) {
+        this.lastLoss = this.update();
+
+        this.episode++;
+        this.lastScore = score;
+        this.bestScore = Math.max(this.bestScore, score);
+        this.returnHistory.push(this.episodeRewards.reduce((sum, r) => sum + r, 0));
+        this.averageReturnHistory.push(this.getStats().averageReturn);
+        if (this.returnHistory.length > this.historyLength) {
+            this.returnHistory.shift();
+            this.averageReturnHistory.shift();
+        }
+
+        if (this.onEpisodeEnd) this.onEpisodeEnd(this.getStats());
+    }
+
+    /**
+     * One policy update from the finished episode
+     * @returns {number} - Advantage-weighted loss
+     */
+    private update(): number {
+        // Discounted return from each step to the end of the episode
+        const returns = new Array(this.episodeRewards.length);
+        let running = 0;
+        for (let t = this.episodeRewards.length - 1; t >= 0; t--) {
+            running = this.episodeRewards[t] + this.gamma * running;
+            returns[t] = running;
+        }
+
+        const meanReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+        this.baseline = this.episode === 0
+            ? meanReturn
+            : this.baselineDecay * this.baseline + (1 - this.baselineDecay) * meanReturn;
+
+        // Scale advantages to unit spread so the step size doesn't depend on episode length
+        const advantages = returns.map(r => r - this.baseline);
+        const spread = Math.sqrt(advantages.reduce((sum, a) => sum + a * a, 0) / advantages.length) || 1;
+
+        const samples: TrainingSample[] = this.states.map((inputs, t) => ({
+            inputs,
+            target: [this.actions[t]],
+            weight: advantages[t] / spread
+        }));
+        return this.policyNet.trainBatch(samples, this.learningRate);
+    }
+
+    private encode(gameState: GameState): number[] {
+        return this.policyNet.stateInputs(gameState);
+    }
+}
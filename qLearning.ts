@@ -0,0 +1,210 @@
+import { ActivationName } from "./activations";
+import { DEFAULT_FEATURES, FeatureName } from "./features";
+import { Game, GameState } from "./game";
+import { NeuralNetwork, TrainingSample } from "./neuralNetwork";
+import { Random } from "./random";
+
+type Transition = {
+    state: number[];
+    action: number;
+    reward: number;
+    nextState: number[];
+    done: boolean;
+};
+
+export type QLearningStats = {
+    episode: number;
+    steps: number;
+    epsilon: number;
+    episodeReward: number;
+    averageReward: number;
+    lastScore: number;
+    bestScore: number;
+    bufferSize: number;
+    loss: number;
+};
+
+/**
+ * Deep Q-learning. The Q-network has one output per action
+ * (index 0: don't flap, 1: flap) and learns from rewards rather than labels,
+ * using an experience replay buffer and a periodically synced target network.
+ */
+export class QLearner {
+    public qNet: NeuralNetwork;
+    public targetNet: NeuralNetwork;
+    public random: Random;
+
+    // Hyperparameters
+    public gamma = 0.99;
+    public learningRate = 0.001;
+    public batchSize = 32;
+    public bufferCapacity = 50000;
+    public warmupSteps = 500;
+    public targetSyncInterval = 1000;
+    public epsilon = 1;
+    public epsilonMin = 0.01;
+    public epsilonDecay = 0.995; // Per episode
+    public maxEpisodeFrames = 10000;
+    public rewards = {
+        alive: 0.1,
+        pipe: 1,
+        death: -1
+    };
+
+    private buffer: Transition[] = [];
+    private bufferIndex = 0;
+    private steps = 0;
+    private episode = 0;
+    private episodeReward = 0;
+    private recentRewards: number[] = [];
+    private lastScore = 0;
+    private bestScore = 0;
+    private lastLoss = 0;
+
+    // Callbacks
+    onEpisodeEnd: ((stats: QLearningStats) => void) | null = null;
+
+    constructor(
+        layerSizes: number[] = [4, 16, 16, 2],
+        random: Random = new Random(),
+        inputFeatures: FeatureName[] = DEFAULT_FEATURES
+    ) {
+        if (layerSizes[layerSizes.length - 1] !== 2) {
+            throw new Error('A Q-network needs exactly 2 outputs, one per action');
+        }
+        this.random = random;
+
+        // Q-values are unbounded, so the output layer is linear
+        const activations: ActivationName[] = layerSizes.slice(1).map((_, l) => l === layerSizes.length - 2 ? 'linear' : 'relu');
+        this.qNet = new NeuralNetwork(layerSizes, random, activations, inputFeatures);
+        this.qNet.setLoss('mse');
+        this.qNet.setOptimizer('adam');
+        this.targetNet = this.qNet.copy();
+    }
+
+    /**
+     * Start a new episode on a fresh pipe sequence
+     */
+    startEpisode(game: Game) {
+        game.random.setSeed(this.random.int(0xffffffff));
+        game.start();
+        this.episodeReward = 0;
+    }
+
+    /**
+     * Act, advance the game one frame, store the transition and learn.
+     * Replaces calling game.update() while Q-learning.
+     */
+    step(game: Game) {
+        if (!game.isPlaying()) this.startEpisode(game);
+
+        const state = this.encode(game.getGameState());
+        const scoreBefore = game.score;
+
+        const action = this.chooseAction(state);
+        if (action === 1) game.flap();
+        game.update();
+
+        const died = !game.isPlaying();
+        const truncated = !died && game.frameCount >= this.maxEpisodeFrames;
+        const reward = died
+            ? this.rewards.death
+            : this.rewards.alive + (game.score - scoreBefore) * this.rewards.pipe;
+
+        this.remember({
+            state,
+            action,
+            reward,
+            nextState: died ? state : this.encode(game.getGameState()),
+            done: died
+        });
+        this.episodeReward += reward;
+        this.steps++;
+
+        if (this.buffer.length >= this.warmupSteps) {
+            this.learn();
+        }
+        if (this.steps % this.targetSyncInterval === 0) {
+            this.targetNet = this.qNet.copy();
+        }
+
+        if (died || truncated) {
+            if (truncated) game.gameOver();
+            this.finishEpisode(game.score);
+        }
+    }
+
+    /**
+     * Epsilon-greedy action selection
+     */
+    chooseAction(state: number[]): number {
+        if (this.random.next() < this.epsilon) {
+            return this.random.int(2);
+        }
+        const q = this.qNet.forwardPass(state);
+        return q[1] > q[0] ? 1 : 0;
+    }
+
+    /**
+     * One gradient step on a random minibatch from the replay buffer
+     */
+    learn() {
+        const samples: TrainingSample[] = [];
+        for (let i = 0; i < this.batchSize; i++) {
+            const t = this.buffer[this.random.int(this.buffer.length)];
+
+            // Bellman target for the action taken; other actions keep their prediction
+            const target = [...this.qNet.forwardPass(t.state)];
+            let value = t.reward;
+            if (!t.done) {
+                value += this.gamma * Math.max(...this.targetNet.forwardPass(t.nextState));
+            }
+            target[t.action] = value;
+            samples.push({ inputs: t.state, target });
+        }
+        this.lastLoss = this.qNet.trainBatch(samples, this.learningRate);
+    }
+
+    getStats(): QLearningStats {
+        return {
+            episode: this.episode,
+            steps: this.steps,
+            epsilon: this.epsilon,
+            episodeReward: this.episodeReward,
+            averageReward: this.recentRewards.length > 0
+                ? this.recentRewards.reduce((sum, r) => sum + r, 0) / this.recentRewards.length
+                : 0,
+            lastScore: this.lastScore,
+            bestScore: this.bestScore,
+            bufferSize: this.buffer.length,
+            loss: this.lastLoss
+        };
+    }
+
+    private finishEpisode(score: number) {
+        this.episode++;
+        this.lastScore = score;
+        this.bestScore = Math.max(this.bestScore, score);
+        this.recentRewards.push(this.episodeReward);
+        if (this.recentRewards.length > 100) this.recentRewards.shift();
+        this.epsilon = Math.max(this.epsilonMin, this.epsilon * this.epsilonDecay);
+
+        if (this.onEpisodeEnd) this.onEpisodeEnd(this.getStats());
+    }
+
+    /**
+     * Add to the replay buffer, overwriting the oldest transition once full
+     */
+    private remember(transition: Transition) {
+        if (this.buffer.length < this.bufferCapacity) {
+            this.buffer.push(transition);
+        } else {
+            this.buffer[this.bufferIndex] = transition;
+            this.bufferIndex = (this.bufferIndex + 1) % this.bufferCapacity;
+        }
+    }
+
+    private encode(gameState: GameState): number[] {
+        return this.qNet.stateInputs(gameState);
+    }
+}
@@ -0,0 +1,83 @@
+import { DeathCause, Game } from "./game";
+import { NeuralNetwork } from "./neuralNetwork";
+
+/**
+ * One bird in a race: flown by a network, or by the player if nn is null
+ */
+export type Racer = {
+    name: string;
+    color: string;
+    nn: NeuralNetwork | null;
+};
+
+export type RaceResult = {
+    name: string;
+    color: string;
+    human: boolean;
+    score: number;
+    frames: number;
+    deathCause: DeathCause | null;
+};
+
+// Bird colours in racer order; the player gets the classic yellow
+export const RACER_COLORS = ['#ffdd00', '#e74c3c', '#3498db', '#9b59b6', '#1abc9c', '#e67e22', '#ecf0f1', '#2ecc71'];
+
+/**
+ * Ghost race: every racer flies its own bird through the same pipes, and each dies
+ * independently. The player, if racing, is always the first bird so
+ * Game.flap() without an index controls them.
+ */
+export class Race {
+    public racers: Racer[];
+    // Ends the race even if some network never crashes
+    public maxFrames = 10000;
+
+    constructor(racers: Racer[]) {
+        // Player first
+        this.racers = [...racers].sort((a, b) => Number(b.nn === null) - Number(a.nn === null));
+    }
+
+    hasHuman() {
+        return this.racers.length > 0 && this.racers[0].nn === null;
+    }
+
+    start(game: Game) {
+        game.start(this.racers.length);
+    }
+
+    /**
+     * Let each network racer decide whether to flap.
+     * Call once per frame before game.update().
+     */
+    step(game: Game) {
+        if (!game.isPlaying()) return;
+
+        if (game.frameCount >= this.maxFrames) {
+            game.gameOver();
+            return;
+        }
+
+        game.birds.forEach((bird, i) => {
+            const nn = this.racers[i]?.nn;
+            if (bird.alive && nn?.predict(game.getGameState(bird))) {
+                game.flap(i);
+            }
+        });
+    }
+
+    /**
+     * Standings, best first: by score, then by how long the bird survived
+     */
+    results(game: Game): RaceResult[] {
+        return this.racers
+            .map((racer, i) => ({
+                name: racer.name,
+                color: racer.color,
+                human: racer.nn === null,
+                score: game.birds[i]?.score ?? 0,
+                frames: game.birds[i]?.framesAlive ?? 0,
+                deathCause: game.birds[i]?.deathCause ?? null
+            }))
+            .sort((a, b) => b.score - a.score || b.frames - a.frames);
+    }
+}
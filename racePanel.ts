@@ -0,0 +1,144 @@
+import { ModelStore, SavedModel } from "./modelStore";
+import { NeuralNetwork } from "./neuralNetwork";
+import { Racer, RaceResult, RACER_COLORS } from "./race";
+import { Random } from "./random";
+
+const DEATH_CAUSES = {
+    ground: 'Hit the ground',
+    ceiling: 'Flew off the top',
+    pipe: 'Hit a pipe',
+    timeout: 'Still flying at the frame limit'
+};
+
+/**
+ * Ghost race panel: pick the player, the current network and any saved models
+ * to race, and show the results table once everyone has crashed
+ */
+export class RacePanel {
+    private store: ModelStore;
+    private models: SavedModel[] = [];
+    private humanCheckbox: HTMLInputElement;
+    private currentCheckbox: HTMLInputElement;
+    private list: HTMLElement;
+    private startBtn: HTMLButtonElement;
+    private results: HTMLTableElement;
+    private status: HTMLElement;
+
+    // Provides the network being trained, and receives the racers to start with
+    private getCurrentNetwork: () => { nn: NeuralNetwork, name: string };
+    private onStart: (racers: Racer[]) => void;
+
+    constructor(
+        store: ModelStore,
+        getCurrentNetwork: () => { nn: NeuralNetwork, name: string },
+        onStart: (racers: Racer[]) => void
+    ) {
+        this.store = store;
+        this.getCurrentNetwork = getCurrentNetwork;
+        this.onStart = onStart;
+
+        this.humanCheckbox = document.getElementById('raceHumanCheckbox') as HTMLInputElement;
+        this.currentCheckbox = document.getElementById('raceCurrentCheckbox') as HTMLInputElement;
+        this.list = document.getElementById('raceModelList') as HTMLElement;
+        this.startBtn = document.getElementById('raceBtn') as HTMLButtonElement;
+        this.results = document.getElementById('raceResults') as HTMLTableElement;
+        this.status = document.getElementById('raceStatus') as HTMLElement;
+
+        this.startBtn.addEventListener('click', () => this.start());
+
+        this.refresh();
+    }
+
+    /**
+     * Reload the saved models that can join a race
+     */
+    async refresh() {
+        try {
+            this.models = await this.store.list();
+        } catch (e) {
+            this.setStatus(`Model storage unavailable: ${(e as Error).message}`, true);
+            return;
+        }
+
+        this.list.replaceChildren(...this.models.map(saved => {
+            const item = document.createElement('li');
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = String(saved.id);
+            const name = document.createElement('span');
+            name.textContent = `${saved.name} · best ${saved.bestScore}`;
+            label.append(checkbox, name);
+            item.appendChild(label);
+            return item;
+        }));
+    }
+
+    private start() {
+        const racers: Racer[] = [];
+        const color = () => RACER_COLORS[racers.length % RACER_COLORS.length];
+
+        if (this.humanCheckbox.checked) {
+            racers.push({ name: 'You', color: color(), nn: null });
+        }
+        if (this.currentCheckbox.checked) {
+            const current = this.getCurrentNetwork();
+            racers.push({ name: current.name, color: color(), nn: current.nn });
+        }
+        const selected = Array.from(this.list.querySelectorAll<HTMLInputElement>('input:checked'));
+        try {
+            for (const checkbox of selected) {
+                const saved = this.models.find(model => String(model.id) === checkbox.value);
+                if (!saved) continue;
+                const nn = new NeuralNetwork(saved.model.architecture.layerSizes, new Random());
+                nn.fromJSON(JSON.stringify(saved.model));
+                racers.push({ name: saved.name, color: color(), nn });
+            }
+        } catch (e) {
+            this.setStatus((e as Error).message, true);
+            return;
+        }
+
+        if (racers.length < 2) {
+            this.setStatus('Pick at least two racers', true);
+            return;
+        }
+        this.setStatus(racers[0].nn === null ? 'Race on! Press Space to flap' : 'Race on!');
+        this.results.replaceChildren();
+        this.onStart(racers);
+    }
+
+    showResults(results: RaceResult[]) {
+        const header = this.row('th', ['Place', 'Racer', 'Score', 'Frames', 'Out']);
+        const rows = results.map((result, i) => {
+            const row = this.row('td', [
+                String(i + 1),
+                result.name,
+                String(result.score),
+                String(result.frames),
+                result.deathCause ? DEATH_CAUSES[result.deathCause] : '-'
+            ]);
+            (row.children[1] as HTMLElement).style.borderLeft = `6px solid ${result.color}`;
+            return row;
+        });
+        this.results.replaceChildren(header, ...rows);
+
+        const human = results.findIndex(result => result.human);
+        this.setStatus(human >= 0 ? `You finished ${human + 1} of ${results.length}` : `${results[0].name} wins`);
+    }
+
+    private row(cell: 'th' | 'td', values: string[]) {
+        const row = document.createElement('tr');
+        for (const value of values) {
+            const element = document.createElement(cell);
+            element.textContent = value;
+            row.appendChild(element);
+        }
+        return row;
+    }
+
+    private setStatus(message: string, isError = false) {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+}
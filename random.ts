@@ -0,0 +1,69 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence, so runs can be reproduced.
+ */
+export class Random {
+    public seed: number;
+    private state: number;
+
+    constructor(seed: number = Random.randomSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Pick a fresh seed when none is given
+     */
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0xffffffff);
+    }
+
+    /**
+     * Change the seed and restart the sequence
+     */
+    setSeed(seed: number) {
+        this.seed = seed >>> 0;
+        this.reset();
+    }
+
+    /**
+     * Restart the sequence from the current seed
+     */
+    reset() {
+        this.state = this.seed;
+    }
+
+    /**
+     * Next value in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Next value in [min, max)
+     */
+    range(min: number, max: number): number {
+        return this.next() * (max - min) + min;
+    }
+
+    /**
+     * Normally distributed value with mean 0 and standard deviation 1 (Box-Muller)
+     */
+    gaussian(): number {
+        const u = 1 - this.next();
+        const v = this.next();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Next integer in [0, max)
+     */
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+}
@@ -0,0 +1,9 @@
+import { Game } from "./game";
+
+/**
+ * Draws the current state of a Game.
+ * Implementations must only read from the game, never mutate it.
+ */
+export interface Renderer {
+    draw(game: Game): void;
+}
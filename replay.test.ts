@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { Game, GameConfig } from "./game";
+import { defaultPhysics, physicsPresets } from "./physics";
+import { Random } from "./random";
+import { parseReplayFile, Replay, REPLAY_FORMAT_VERSION, ReplayFormatError, ReplayPlayer, ReplayRecorder } from "./replay";
+
+/**
+ * Fly an episode with a simple "below the gap, flap" rule and record it
+ */
+function recordEpisode(seed: number, config: Partial<GameConfig> = {}): Replay {
+    const game = new Game(config, new Random(seed));
+    const recorder = new ReplayRecorder();
+    game.onFrame = (frame, flapped) => recorder.record(frame, flapped);
+    game.start();
+    recorder.start(game, { type: 'human' });
+    while (game.isPlaying() && game.frameCount < 3000) {
+        const state = game.getGameState()!;
+        if (state.birdY > state.pipeGapY + 0.02) game.flap();
+        game.update();
+    }
+    return recorder.finish(game.score)!;
+}
+
+function replayToEnd(replay: Replay) {
+    const player = new ReplayPlayer(parseReplayFile(JSON.stringify(replay)));
+    while (player.step()) { }
+    return player;
+}
+
+describe('ReplayPlayer', () => {
+    it('re-simulates a recorded episode frame-exactly', () => {
+        const replay = recordEpisode(7);
+        expect(replay.flaps.length).toBeGreaterThan(0);
+
+        const player = replayToEnd(replay);
+        expect(player.matchesRecording()).toBe(true);
+        expect(player.game.score).toBe(replay.score);
+        expect(player.frame).toBe(replay.frames);
+    });
+
+    it('re-simulates under other difficulties and physics', () => {
+        const replay = recordEpisode(11, { difficulty: 'curriculum', physics: { ...physicsPresets.hardcore.physics } });
+        expect(replayToEnd(replay).matchesRecording()).toBe(true);
+    });
+
+    it('ends on the same frame after seeking backwards', () => {
+        const player = new ReplayPlayer(recordEpisode(3));
+        player.seek(120);
+        const y = player.game.bird!.y;
+        player.seek(40);
+        player.seek(120);
+        expect(player.game.bird!.y).toBe(y);
+    });
+});
+
+describe('parseReplayFile', () => {
+    it('migrates version 1 replays to normal difficulty and classic physics', () => {
+        const replay: any = recordEpisode(5);
+        delete replay.config.difficulty;
+        delete replay.config.physics;
+        replay.version = 1;
+
+        const migrated = parseReplayFile(JSON.stringify(replay));
+        expect(migrated.version).toBe(REPLAY_FORMAT_VERSION);
+        expect(migrated.config.difficulty).toBe('normal');
+        expect(migrated.config.physics).toEqual(defaultPhysics());
+        expect(replayToEnd(migrated).matchesRecording()).toBe(true);
+    });
+
+    it('rejects malformed replays', () => {
+        const replay = recordEpisode(5);
+        expect(() => parseReplayFile('{')).toThrow(ReplayFormatError);
+        expect(() => parseReplayFile(JSON.stringify({ ...replay, format: 'other' }))).toThrow(/Not a replay file/);
+        expect(() => parseReplayFile(JSON.stringify({ ...replay, version: REPLAY_FORMAT_VERSION + 1 }))).toThrow(/Unsupported/);
+        expect(() => parseReplayFile(JSON.stringify({ ...replay, flaps: [replay.frames + 1] }))).toThrow(/flaps/);
+        expect(() => parseReplayFile(JSON.stringify({
+            ...replay,
+            config: { ...replay.config, difficulty: 'constructor' }
+        }))).toThrow(/Unknown replay difficulty/);
+    });
+});
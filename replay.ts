@@ -0,0 +1,216 @@
+import { difficulties } from "./difficulty";
+import { Game, GameConfig } from "./game";
+import { ModelFile } from "./modelFormat";
+import { NeuralNetwork } from "./neuralNetwork";
+import { defaultPhysics, physicsError } from "./physics";
+import { Random } from "./random";
+
+export const REPLAY_FORMAT = 'flappy-nn-replay';
+export const REPLAY_FORMAT_VERSION = 3;
+
+export type ReplayController =
+    | { type: 'human' }
+    | { type: 'ai', modelName: string, model: ModelFile };
+
+export type Replay = {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    seed: number;
+    config: GameConfig;
+    controller: ReplayController;
+    // Frames (1-based, as in Game.frameCount) that the bird flapped going into
+    flaps: number[];
+    frames: number;
+    score: number;
+    recordedAt: string;
+};
+
+/**
+ * Thrown by parseReplayFile() for replays that couldn't be re-simulated as recorded
+ */
+export class ReplayFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayFormatError';
+    }
+}
+
+/**
+ * Records the inputs of one episode. Wire record() to Game.onFrame.
+ */
+export class ReplayRecorder {
+    private current: Replay | null = null;
+
+    start(game: Game, controller: ReplayController) {
+        this.current = {
+            format: REPLAY_FORMAT,
+            version: REPLAY_FORMAT_VERSION,
+            seed: game.random.seed,
+            config: game.getConfig(),
+            controller,
+            flaps: [],
+            frames: 0,
+            score: 0,
+            recordedAt: new Date().toISOString()
+        };
+    }
+
+    record(frame: number, flapped: boolean) {
+        if (!this.current) return;
+        this.current.frames = frame;
+        if (flapped) this.current.flaps.push(frame);
+    }
+
+    /**
+     * Finish the episode and return its replay
+     */
+    finish(score: number): Replay | null {
+        const replay = this.current;
+        this.current = null;
+        if (replay) replay.score = score;
+        return replay;
+    }
+
+    /**
+     * Drop the episode without keeping it
+     */
+    cancel() {
+        this.current = null;
+    }
+
+    isRecording() {
+        return this.current !== null;
+    }
+}
+
+/**
+ * Re-simulates a replay frame by frame. Seeking backwards restarts
+ * from frame 0, which is cheap because the simulation is deterministic.
+ */
+export class ReplayPlayer {
+    public replay: Replay;
+    public game!: Game;
+    // Network whose activations are shown for each frame, if any
+    public nn: NeuralNetwork | null;
+    private flapFrames: Set<number>;
+
+    constructor(replay: Replay, fallbackNetwork: NeuralNetwork | null = null) {
+        this.replay = replay;
+        this.flapFrames = new Set(replay.flaps);
+
+        if (replay.controller.type === 'ai') {
+            this.nn = new NeuralNetwork(replay.controller.model.architecture.layerSizes);
+            this.nn.fromJSON(JSON.stringify(replay.controller.model));
+        } else {
+            this.nn = fallbackNetwork;
+        }
+
+        this.restart();
+    }
+
+    get frame() {
+        return this.game.frameCount;
+    }
+
+    isFinished() {
+        return this.game.frameCount >= this.replay.frames || !this.game.isPlaying();
+    }
+
+    /**
+     * Whether re-simulation reproduced the recorded score
+     */
+    matchesRecording() {
+        if (!this.isFinished()) return true;
+        return this.game.score === this.replay.score && this.game.frameCount === this.replay.frames;
+    }
+
+    restart() {
+        this.game = new Game(this.replay.config, new Random(this.replay.seed));
+        this.game.start();
+        this.updateActivations();
+    }
+
+    /**
+     * Advance one frame
+     * @returns {boolean} - False once the replay has ended
+     */
+    step(): boolean {
+        if (this.isFinished()) return false;
+
+        if (this.flapFrames.has(this.game.frameCount + 1)) {
+            this.game.flap();
+        }
+        this.game.update();
+        this.updateActivations();
+        return true;
+    }
+
+    seek(frame: number) {
+        if (frame < this.game.frameCount) this.restart();
+        while (this.game.frameCount < frame && this.step()) { }
+    }
+
+    private updateActivations() {
+        const state = this.game.getGameState();
+        if (this.nn && state) this.nn.predict(state);
+    }
+}
+
+/**
+ * Parse and check a replay file
+ * @throws {ReplayFormatError} - If the file is malformed or from a newer version
+ */
+export function parseReplayFile(json: string): Replay {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new ReplayFormatError(`Replay file is not valid JSON: ${(e as Error).message}`);
+    }
+
+    if (!data || data.format !== REPLAY_FORMAT) {
+        throw new ReplayFormatError(`Not a replay file (expected format "${REPLAY_FORMAT}")`);
+    }
+    if (!Number.isInteger(data.version) || data.version > REPLAY_FORMAT_VERSION) {
+        throw new ReplayFormatError(`Unsupported replay version: ${data.version}`);
+    }
+    if (!Number.isInteger(data.seed) || data.seed < 0) {
+        throw new ReplayFormatError('Replay seed must be a non-negative integer');
+    }
+    if (!Number.isFinite(data.config?.width) || !Number.isFinite(data.config?.height)) {
+        throw new ReplayFormatError('Replay config needs a width and height');
+    }
+    // Version 1 replays were all played before difficulty profiles existed
+    if (data.version === 1) {
+        data.config.difficulty = 'normal';
+        data.version = 2;
+    }
+    if (!(typeof data.config.difficulty === 'string' && Object.hasOwn(difficulties, data.config.difficulty))) {
+        throw new ReplayFormatError(`Unknown replay difficulty "${data.config.difficulty}"`);
+    }
+    // Version 2 replays were all played under the classic physics
+    if (data.version === 2) {
+        data.config.physics = defaultPhysics();
+        data.version = 3;
+    }
+    const physicsProblem = physicsError(data.config.physics);
+    if (physicsProblem) {
+        throw new ReplayFormatError(`Invalid replay physics: ${physicsProblem}`);
+    }
+    if (!Number.isInteger(data.frames) || data.frames < 0) {
+        throw new ReplayFormatError('Replay frame count must be a non-negative integer');
+    }
+    if (!Array.isArray(data.flaps) ||
+        data.flaps.some((frame: unknown) => !Number.isInteger(frame) || (frame as number) < 1 || (frame as number) > data.frames)) {
+        throw new ReplayFormatError(`Replay flaps must be frame numbers between 1 and ${data.frames}`);
+    }
+    const controller = data.controller;
+    if (controller?.type !== 'human' && controller?.type !== 'ai') {
+        throw new ReplayFormatError('Replay controller must be "human" or "ai"');
+    }
+    if (controller.type === 'ai' && (typeof controller.modelName !== 'string' || !controller.model)) {
+        throw new ReplayFormatError('AI replays must include the model name and model');
+    }
+
+    return data as Replay;
+}
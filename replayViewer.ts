@@ -0,0 +1,182 @@
+import { difficulties } from "./difficulty";
+import { downloadFile, toFileName } from "./files";
+import { NeuralNetwork } from "./neuralNetwork";
+import { parseReplayFile, Replay, ReplayPlayer } from "./replay";
+
+/**
+ * Replay panel: lists recorded episodes and plays one back with
+ * play/pause, scrubbing and speed control
+ */
+export class ReplayViewer {
+    public player: ReplayPlayer | null = null;
+    private replays: Replay[] = [];
+    private maxReplays = 20;
+    private playing = false;
+    private speed = 1;
+    private pendingFrames = 0;
+
+    private list: HTMLElement;
+    private importInput: HTMLInputElement;
+    private controls: HTMLElement;
+    private playPauseBtn: HTMLButtonElement;
+    private closeBtn: HTMLButtonElement;
+    private scrub: HTMLInputElement;
+    private speedSelect: HTMLSelectElement;
+    private frameLabel: HTMLElement;
+    private status: HTMLElement;
+
+    // Network shown for human replays, which don't carry a model
+    private getFallbackNetwork: () => NeuralNetwork;
+    private onOpen: (player: ReplayPlayer) => void;
+    private onClose: () => void;
+
+    constructor(
+        getFallbackNetwork: () => NeuralNetwork,
+        onOpen: (player: ReplayPlayer) => void,
+        onClose: () => void
+    ) {
+        this.getFallbackNetwork = getFallbackNetwork;
+        this.onOpen = onOpen;
+        this.onClose = onClose;
+
+        this.list = document.getElementById('replayList') as HTMLElement;
+        this.importInput = document.getElementById('importReplayInput') as HTMLInputElement;
+        this.controls = document.getElementById('replayControls') as HTMLElement;
+        this.playPauseBtn = document.getElementById('replayPlayPauseBtn') as HTMLButtonElement;
+        this.closeBtn = document.getElementById('replayCloseBtn') as HTMLButtonElement;
+        this.scrub = document.getElementById('replayScrub') as HTMLInputElement;
+        this.speedSelect = document.getElementById('replaySpeed') as HTMLSelectElement;
+        this.frameLabel = document.getElementById('replayFrame') as HTMLElement;
+        this.status = document.getElementById('replayStatus') as HTMLElement;
+
+        this.playPauseBtn.addEventListener('click', () => this.setPlaying(!this.playing));
+        this.closeBtn.addEventListener('click', () => this.close());
+        this.speedSelect.addEventListener('change', () => {
+            this.speed = parseFloat(this.speedSelect.value);
+        });
+        this.scrub.addEventListener('input', () => {
+            this.player?.seek(parseInt(this.scrub.value, 10));
+            this.pendingFrames = 0;
+            this.updateControls();
+        });
+        this.importInput.addEventListener('change', () => this.importFiles());
+
+        this.controls.hidden = true;
+        this.refresh();
+    }
+
+    /**
+     * Keep a newly recorded episode
+     */
+    add(replay: Replay) {
+        this.replays.unshift(replay);
+        this.replays.length = Math.min(this.replays.length, this.maxReplays);
+        this.refresh();
+    }
+
+    open(replay: Replay) {
+        try {
+            this.player = new ReplayPlayer(replay, this.getFallbackNetwork());
+        } catch (e) {
+            this.setStatus((e as Error).message, true);
+            return;
+        }
+
+        this.scrub.max = String(replay.frames);
+        this.controls.hidden = false;
+        this.pendingFrames = 0;
+        this.setStatus(`Viewing ${this.describe(replay)}`);
+        this.setPlaying(true);
+        this.onOpen(this.player);
+    }
+
+    close() {
+        if (!this.player) return;
+        this.player = null;
+        this.playing = false;
+        this.controls.hidden = true;
+        this.setStatus('');
+        this.onClose();
+    }
+
+    /**
+     * Advance playback. Call once per rendered frame.
+     */
+    tick() {
+        const player = this.player;
+        if (!player || !this.playing) return;
+
+        this.pendingFrames += this.speed;
+        while (this.pendingFrames >= 1) {
+            this.pendingFrames--;
+            if (!player.step()) {
+                this.setPlaying(false);
+                this.setStatus(player.matchesRecording()
+                    ? `Replay finished: score ${player.game.score}`
+                    : `Replay diverged: recorded score ${player.replay.score}, re-simulated ${player.game.score}`,
+                    !player.matchesRecording());
+                break;
+            }
+        }
+        this.updateControls();
+    }
+
+    async importFiles() {
+        const files = Array.from(this.importInput.files ?? []);
+        try {
+            for (const file of files) {
+                this.add(parseReplayFile(await file.text()));
+            }
+        } catch (e) {
+            this.setStatus((e as Error).message, true);
+        }
+        this.importInput.value = '';
+    }
+
+    private setPlaying(playing: boolean) {
+        if (playing && this.player?.isFinished()) {
+            this.player.restart();
+        }
+        this.playing = playing;
+        this.playPauseBtn.textContent = playing ? 'Pause' : 'Play';
+    }
+
+    private updateControls() {
+        if (!this.player) return;
+        this.scrub.value = String(this.player.frame);
+        this.frameLabel.textContent = `${this.player.frame} / ${this.player.replay.frames}`;
+    }
+
+    private refresh() {
+        this.list.replaceChildren(...this.replays.map(replay => {
+            const item = document.createElement('li');
+            const label = document.createElement('span');
+            label.textContent = this.describe(replay);
+
+            const viewBtn = document.createElement('button');
+            viewBtn.textContent = 'View';
+            viewBtn.addEventListener('click', () => this.open(replay));
+
+            const exportBtn = document.createElement('button');
+            exportBtn.textContent = 'Export';
+            exportBtn.addEventListener('click', () => {
+                const name = `replay-seed${replay.seed}-score${replay.score}`;
+                downloadFile(toFileName(name, 'json'), JSON.stringify(replay));
+            });
+
+            item.append(label, viewBtn, exportBtn);
+            return item;
+        }));
+    }
+
+    private describe(replay: Replay) {
+        const who = replay.controller.type === 'human' ? 'Human' : `AI "${replay.controller.modelName}"`;
+        const difficulty = difficulties[replay.config.difficulty].label;
+        return `${who} · ${difficulty} · seed ${replay.seed} · score ${replay.score} · ${replay.frames} frames`;
+    }
+
+    private setStatus(message: string, isError = false) {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+}
@@ -1,54 +1,130 @@
 import { GameState } from "./game";
-import { NeuralNetwork } from "./neuralNetwork";
+import { getLoss, LossName } from "./losses";
+import { NeuralNetwork, TrainingSample } from "./neuralNetwork";
+import { Random } from "./random";
+import type { TrainingWorkerRequest, TrainingWorkerResponse } from "./trainingWorker";
+
+/**
+ * How well the network classifies flap (positive) vs no flap on a set of samples
+ */
+export type ClassificationMetrics = {
+    loss: number;
+    accuracy: number;
+    // Of the predicted flaps, the fraction that should have been flaps
+    precision: number;
+    // Of the actual flaps, the fraction predicted
+    recall: number;
+    confusion: {
+        truePositive: number;
+        falsePositive: number;
+        trueNegative: number;
+        falseNegative: number;
+    };
+};
+
+export type TrainingStats = {
+    totalSamples: number;
+    validationSamples: number;
+    currentLoss: number;
+    lossFunction: LossName;
+    trainedEpochs: number;
+    validation: ClassificationMetrics | null;
+    bestValidationLoss: number | null;
+    stoppedEarly: boolean;
+};
+
+/**
+ * Training and validation loss at the end of one epoch
+ */
+export type EpochLoss = {
+    epoch: number;
+    loss: number;
+    validationLoss: number | null;
+};
+
+/**
+ * Where training labels come from: the calculateOptimalAction heuristic,
+ * or what the player actually did (behaviour cloning)
+ */
+export type LabelSource = 'heuristic' | 'player';
 
 export class Trainer {
     public nn: NeuralNetwork;
-    public trainingData: Array<{
-        inputs: number[];
-        target: number[];
-    }> = [];
+    public trainingData: TrainingSample[] = [];
+    // Held out from training, to measure generalization and decide when to stop
+    public validationData: TrainingSample[] = [];
+    public validationSplit = 0.2;
     private maxSamples = 10000;
-    private batchSize = 32;
+    public batchSize = 32;
+
+    // Stop once validation loss hasn't improved by minDelta for this many epochs
+    public earlyStopping = true;
+    public patience = 20;
+    public minDelta = 1e-4;
+    private epochsWithoutImprovement = 0;
+
+    // Background training, while startTraining() is running
+    private worker: Worker | null = null;
+
     public isTraining = false;
-    private trainingStats = {
-        totalSamples: 0,
-        currentLoss: 0,
-        trainedEpochs: 0
-    };
+    public random: Random;
+    public labelSource: LabelSource = 'heuristic';
+    private trainingStats: TrainingStats;
+
+    // Last captured state, waiting to be labelled with the player's next action
+    private pendingState: GameState = null;
 
     // Callbacks
-    onStatsUpdate: ((stats: {
-        totalSamples: number;
-        currentLoss: number;
-        trainedEpochs: number;
-    }) => void) | null = null;
+    onStatsUpdate: ((stats: TrainingStats) => void) | null = null;
+    // Called after every epoch, including those trained in the worker
+    onEpochComplete: ((epoch: EpochLoss) => void) | null = null;
 
-    constructor(neuralNetwork: NeuralNetwork) {
+    constructor(neuralNetwork: NeuralNetwork, random: Random = new Random()) {
         this.nn = neuralNetwork;
+        this.random = random;
+        this.trainingStats = this.emptyStats();
     }
 
     addSample(gameState: GameState, optimalAction: number) {
         if (!gameState) {
             throw new Error('Invalid game state for adding sample');
         }
-        const sample = {
-            inputs: [
-                gameState.birdY,
-                gameState.birdVelocity,
-                gameState.pipeDistance,
-                gameState.pipeGapY
-            ],
+        const sample: TrainingSample = {
+            inputs: this.nn.stateInputs(gameState),
             target: [optimalAction]
         };
 
-        this.trainingData.push(sample);
+        // Assign each sample to one set for good, so validation samples are never trained on
+        const validation = this.random.next() < this.validationSplit;
+        this.storeSample(sample, validation);
+        this.postToWorker({ type: 'addSample', sample, validation });
+        this.updateStats();
+    }
+
+    /**
+     * Add a sample to the training or validation set, dropping the oldest once full
+     */
+    storeSample(sample: TrainingSample, validation: boolean) {
+        const data = validation ? this.validationData : this.trainingData;
+        data.push(sample);
 
         // Keep dataset manageable
-        if (this.trainingData.length > this.maxSamples) {
-            this.trainingData.shift();
+        const limit = Math.round(this.maxSamples * (validation ? this.validationSplit : 1 - this.validationSplit));
+        if (data.length > limit) {
+            data.shift();
         }
 
-        this.trainingStats.totalSamples = this.trainingData.length;
+        this.trainingStats.totalSamples = this.trainingData.length + this.validationData.length;
+        this.trainingStats.validationSamples = this.validationData.length;
+    }
+
+    /**
+     * Replace all collected samples, e.g. with an imported dataset
+     */
+    loadSamples(trainingData: TrainingSample[], validationData: TrainingSample[]) {
+        this.reset();
+        for (const sample of trainingData) this.storeSample(sample, false);
+        for (const sample of validationData) this.storeSample(sample, true);
         this.updateStats();
     }
 
@@ -73,9 +149,13 @@ export class Trainer {
     }
 
 
+    /**
+     * Train for a number of epochs, measuring the validation set after each one.
+     * Does nothing until there is at least one full batch of training data.
+     * @returns {number} - Average training loss, or 0 if nothing was trained
+     */
     train(learningRate: number = 0.1, epochs: number = 100) {
-        if (this.trainingData.length < this.batchSize) {
-            console.log('Not enough training data');
+        if (!this.hasEnoughData()) {
             return 0;
         }
 
@@ -86,52 +166,212 @@ export class Trainer {
             // Shuffle training data
             const shuffled = this.shuffle([...this.trainingData]);
 
-            // Train on batches
+            // Train on batches, one weight update per batch
+            let epochLoss = 0;
             for (let i = 0; i < shuffled.length; i += this.batchSize) {
                 const batch = shuffled.slice(i, i + this.batchSize);
+                const loss = this.nn.trainBatch(batch, learningRate);
+                epochLoss += loss * batch.length;
+            }
+            totalLoss += epochLoss;
+            samplesTrained += shuffled.length;
+            this.trainingStats.trainedEpochs++;
 
-                for (const sample of batch) {
-                    const loss = this.nn.train(sample.inputs, sample.target, learningRate);
-                    totalLoss += loss;
-                    samplesTrained++;
-                }
+            const stop = this.validateEpoch();
+            if (this.onEpochComplete) {
+                this.onEpochComplete({
+                    epoch: this.trainingStats.trainedEpochs,
+                    loss: epochLoss / shuffled.length,
+                    validationLoss: this.trainingStats.validation?.loss ?? null
+                });
+            }
+            if (stop) {
+                this.trainingStats.stoppedEarly = true;
+                this.isTraining = false;
+                break;
             }
         }
 
         this.trainingStats.currentLoss = totalLoss / samplesTrained;
-        this.trainingStats.trainedEpochs += epochs;
+        this.trainingStats.lossFunction = this.nn.loss;
         this.updateStats();
 
         return this.trainingStats.currentLoss;
     }
 
     /**
-     * Start continuous training mode
+     * Whether there is at least one full batch of training samples
      */
-    startTraining(learningRate: number, onComplete: (() => void) | null = null) {
-        this.isTraining = true;
+    hasEnoughData() {
+        return this.trainingData.length >= this.batchSize;
+    }
 
-        const trainStep = () => {
-            if (!this.isTraining) {
-                if (onComplete) onComplete();
-                return;
-            }
+    /**
+     * Measure the validation set and track improvement
+     * @returns {boolean} - True if training should stop early
+     */
+    private validateEpoch(): boolean {
+        if (this.validationData.length === 0) {
+            this.trainingStats.validation = null;
+            return false;
+        }
+
+        const metrics = this.evaluate(this.validationData);
+        this.trainingStats.validation = metrics;
+
+        const best = this.trainingStats.bestValidationLoss;
+        if (best === null || metrics.loss < best - this.minDelta) {
+            this.trainingStats.bestValidationLoss = metrics.loss;
+            this.epochsWithoutImprovement = 0;
+            return false;
+        }
+
+        this.epochsWithoutImprovement++;
+        return this.earlyStopping && this.epochsWithoutImprovement >= this.patience;
+    }
+
+    /**
+     * Loss and flap-classification metrics of the network on some samples,
+     * counting an output above 0.5 as a flap
+     */
+    evaluate(samples: TrainingSample[]): ClassificationMetrics {
+        const loss = getLoss(this.nn.loss);
+        const confusion = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 };
+        let totalLoss = 0;
+
+        for (const sample of samples) {
+            const output = this.nn.forwardPass(sample.inputs);
+            totalLoss += loss.fn(output[0], sample.target[0]);
 
-            // Train for a small number of epochs
-            this.train(learningRate, 10);
+            const predicted = output[0] > 0.5;
+            const actual = sample.target[0] > 0.5;
+            if (predicted && actual) confusion.truePositive++;
+            else if (predicted) confusion.falsePositive++;
+            else if (actual) confusion.falseNegative++;
+            else confusion.trueNegative++;
+        }
 
-            // Continue training
-            requestAnimationFrame(trainStep);
+        const { truePositive, falsePositive, falseNegative } = confusion;
+        return {
+            loss: samples.length > 0 ? totalLoss / samples.length : 0,
+            accuracy: samples.length > 0 ? (truePositive + confusion.trueNegative) / samples.length : 0,
+            precision: truePositive + falsePositive > 0 ? truePositive / (truePositive + falsePositive) : 0,
+            recall: truePositive + falseNegative > 0 ? truePositive / (truePositive + falseNegative) : 0,
+            confusion
         };
+    }
+
+    /**
+     * Restart early stopping from whatever network is being trained now
+     */
+    resetEarlyStopping() {
+        this.epochsWithoutImprovement = 0;
+        this.trainingStats.bestValidationLoss = null;
+        this.trainingStats.stoppedEarly = false;
+    }
+
+    /**
+     * Start continuous training in a worker, off the main thread.
+     * Progress arrives through onStatsUpdate and the network's weights are
+     * updated periodically; samples added meanwhile are passed on to the worker.
+     * @param {Function} onComplete - Called once training ends, by stopTraining() or early stopping,
+     * or with the reason it failed
+     */
+    startTraining(learningRate: number, onComplete: ((error: string | null) => void) | null = null) {
+        this.cancelTraining();
+        this.isTraining = true;
+        this.resetEarlyStopping();
+
+        // Updates go to the network being trained, even if nn is swapped meanwhile
+        const nn = this.nn;
+        const optimizer = nn.optimizer.name;
+        const epochsAtStart = this.trainingStats.trainedEpochs;
+        const worker = new Worker(new URL('./trainingWorker.ts', import.meta.url), { type: 'module' });
+        this.worker = worker;
+
+        const applyStats = (stats: TrainingStats) => {
+            this.trainingStats.currentLoss = stats.currentLoss;
+            this.trainingStats.lossFunction = stats.lossFunction;
+            this.trainingStats.trainedEpochs = epochsAtStart + stats.trainedEpochs;
+            this.trainingStats.validation = stats.validation;
+            this.trainingStats.bestValidationLoss = stats.bestValidationLoss;
+            this.trainingStats.stoppedEarly = stats.stoppedEarly;
+            this.updateStats();
+        };
+        const finish = (error: string | null = null) => {
+            if (this.worker === worker) {
+                this.worker = null;
+                this.isTraining = false;
+            }
+            worker.terminate();
+            if (onComplete) onComplete(error);
+        };
+
+        worker.addEventListener('message', (event: MessageEvent<TrainingWorkerResponse>) => {
+            // Anything still queued from a cancelled worker is dropped
+            if (this.worker !== worker) return;
+            const response = event.data;
+            switch (response.type) {
+                case 'weights':
+                    nn.setWeights(response.weights, response.biases);
+                    // Unless the optimizer was switched while training
+                    if (nn.optimizer.name === optimizer) nn.optimizer.setState(response.optimizerState);
+                    break;
+                case 'progress':
+                    if (this.onEpochComplete) {
+                        for (const epoch of response.epochs) {
+                            this.onEpochComplete({ ...epoch, epoch: epochsAtStart + epoch.epoch });
+                        }
+                    }
+                    applyStats(response.stats);
+                    break;
+                case 'done':
+                    applyStats(response.stats);
+                    finish();
+                    break;
+                case 'error':
+                    finish(response.message);
+                    break;
+            }
+        });
+        worker.addEventListener('error', (event) => {
+            finish(`Training worker failed: ${event.message}`);
+        });
 
-        trainStep();
+        this.postToWorker({
+            type: 'start',
+            model: nn.toModelFile(),
+            optimizerState: nn.optimizer.getState(),
+            trainingData: this.trainingData,
+            validationData: this.validationData,
+            learningRate,
+            seed: this.random.int(0xffffffff),
+            earlyStopping: this.earlyStopping,
+            patience: this.patience,
+            minDelta: this.minDelta
+        });
     }
 
     /**
-     * Stop continuous training
+     * Stop continuous training. The worker sends its final weights before finishing.
      */
     stopTraining() {
         this.isTraining = false;
+        this.postToWorker({ type: 'stop' });
+    }
+
+    private postToWorker(request: TrainingWorkerRequest) {
+        this.worker?.postMessage(request);
+    }
+
+    /**
+     * Drop any running worker without waiting for its final weights or stats.
+     * onComplete isn't called.
+     */
+    cancelTraining() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.isTraining = false;
     }
 
     /**
@@ -139,7 +379,7 @@ export class Trainer {
      */
     shuffle(array: any[]) {
         for (let i = array.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = this.random.int(i + 1);
             [array[i], array[j]] = [array[j], array[i]];
         }
         return array;
@@ -149,13 +389,26 @@ export class Trainer {
      * Clear all training data
      */
     reset() {
+        this.cancelTraining();
         this.trainingData = [];
-        this.trainingStats = {
+        this.validationData = [];
+        this.pendingState = null;
+        this.epochsWithoutImprovement = 0;
+        this.trainingStats = this.emptyStats();
+        this.updateStats();
+    }
+
+    private emptyStats(): TrainingStats {
+        return {
             totalSamples: 0,
+            validationSamples: 0,
             currentLoss: 0,
-            trainedEpochs: 0
+            lossFunction: this.nn.loss,
+            trainedEpochs: 0,
+            validation: null,
+            bestValidationLoss: null,
+            stoppedEarly: false
         };
-        this.updateStats();
     }
 
     /**
@@ -177,9 +430,27 @@ export class Trainer {
     /**
      * Collect training data during gameplay
      * Call this each frame while playing
+     * @param {Object} gameState - State after the frame
+     * @param {boolean} flapped - Whether the player flapped going into the frame
+     */
+    collectFromGameState(gameState: GameState, flapped: boolean = false) {
+        if (this.labelSource === 'heuristic') {
+            const optimalAction = this.calculateOptimalAction(gameState);
+            this.addSample(gameState, optimalAction);
+            return;
+        }
+
+        // The player's response to a state only shows up with the next frame
+        if (this.pendingState) {
+            this.addSample(this.pendingState, flapped ? 1 : 0);
+        }
+        this.pendingState = gameState;
+    }
+
+    /**
+     * Forget the state awaiting a label, so episodes don't get stitched together
      */
-    collectFromGameState(gameState: GameState) {
-        const optimalAction = this.calculateOptimalAction(gameState);
-        this.addSample(gameState, optimalAction);
+    startEpisode() {
+        this.pendingState = null;
     }
 }
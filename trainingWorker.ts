@@ -0,0 +1,114 @@
+import { ModelFile } from "./modelFormat";
+import { NeuralNetwork, TrainingSample } from "./neuralNetwork";
+import { OptimizerState } from "./optimizers";
+import { Random } from "./random";
+import { EpochLoss, Trainer, TrainingStats } from "./trainer";
+
+export type TrainingWorkerRequest =
+    | {
+        type: 'start';
+        model: ModelFile;
+        // Carried across starts, so stopping and resuming doesn't reset momentum or Adam's moments
+        optimizerState: OptimizerState;
+        trainingData: TrainingSample[];
+        validationData: TrainingSample[];
+        learningRate: number;
+        seed: number;
+        earlyStopping: boolean;
+        patience: number;
+        minDelta: number;
+    }
+    // Samples collected on the main thread after training started
+    | { type: 'addSample', sample: TrainingSample, validation: boolean }
+    | { type: 'stop' };
+
+export type TrainingWorkerResponse =
+    // Every epoch since the last progress report comes along
+    | { type: 'progress', stats: TrainingStats, epochs: EpochLoss[] }
+    | { type: 'weights', weights: number[][][], biases: number[][], optimizerState: OptimizerState }
+    // Training ended, by request or early stopping; final weights have been posted
+    | { type: 'done', stats: TrainingStats }
+    // Training couldn't start; nothing was trained
+    | { type: 'error', message: string };
+
+// Epochs between progress reports, and the minimum time between weight updates
+const EPOCHS_PER_STEP = 10;
+const WEIGHTS_INTERVAL_MS = 250;
+
+let trainer: Trainer | null = null;
+let learningRate = 0.1;
+let lastWeightsPosted = 0;
+
+function post(response: TrainingWorkerResponse) {
+    self.postMessage(response);
+}
+
+function postWeights(nn: NeuralNetwork) {
+    const { weights, biases } = nn.getWeights();
+    post({ type: 'weights', weights, biases, optimizerState: nn.optimizer.getState() });
+    lastWeightsPosted = performance.now();
+}
+
+/**
+ * Train a few epochs, then yield so stop and sample messages get handled
+ */
+function trainStep() {
+    const current = trainer;
+    if (!current) return;
+
+    if (current.isTraining) {
+        current.train(learningRate, EPOCHS_PER_STEP);
+    }
+
+    // Early stopping clears isTraining inside train()
+    if (!current.isTraining) {
+        postWeights(current.nn);
+        post({ type: 'done', stats: current.getStats() });
+        trainer = null;
+        return;
+    }
+
+    if (performance.now() - lastWeightsPosted >= WEIGHTS_INTERVAL_MS) {
+        postWeights(current.nn);
+    }
+    setTimeout(trainStep, 0);
+}
+
+self.addEventListener('message', (event: MessageEvent<TrainingWorkerRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'start': {
+            const nn = new NeuralNetwork(request.model.architecture.layerSizes);
+            nn.fromJSON(JSON.stringify(request.model));
+            nn.optimizer.setState(request.optimizerState);
+
+            trainer = new Trainer(nn, new Random(request.seed));
+            trainer.trainingData = request.trainingData;
+            trainer.validationData = request.validationData;
+            trainer.earlyStopping = request.earlyStopping;
+            trainer.patience = request.patience;
+            trainer.minDelta = request.minDelta;
+            const epochs: EpochLoss[] = [];
+            trainer.onEpochComplete = (epoch) => epochs.push(epoch);
+            trainer.onStatsUpdate = (stats) => post({ type: 'progress', stats: { ...stats }, epochs: epochs.splice(0) });
+            if (!trainer.hasEnoughData()) {
+                post({ type: 'error', message: `Need at least ${trainer.batchSize} training samples to train` });
+                trainer = null;
+                break;
+            }
+            trainer.resetEarlyStopping();
+            trainer.isTraining = true;
+
+            learningRate = request.learningRate;
+            lastWeightsPosted = performance.now();
+            trainStep();
+            break;
+        }
+        case 'addSample':
+            trainer?.storeSample(request.sample, request.validation);
+            break;
+        case 'stop':
+            if (trainer) trainer.isTraining = false;
+            break;
+    }
+});
@@ -1,28 +1,78 @@
+import { getActivation } from './activations';
+import { lerpColor } from './colors';
+import { getFeature } from './features';
 import { NeuralNetwork } from './neuralNetwork';
 
+/**
+ * How connections are coloured: by weight alone, or by how much they
+ * contribute for the current input (weight × source activation)
+ */
+export type EdgeMode = 'weight' | 'contribution';
+
+type Point = { x: number, y: number };
+
+type Layout = {
+    // Node centres, per layer
+    nodes: Point[][];
+    radius: number;
+    // Where the pinned neuron's bar chart goes, if one is pinned
+    chart: { top: number, height: number } | null;
+};
+
+// Something under the cursor: a node, or the connection from node i of layer l to node j of layer l + 1
+type Target =
+    | { type: 'node', layer: number, index: number }
+    | { type: 'edge', layer: number, from: number, to: number };
+
 export class Visualizer {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D
     public nn: NeuralNetwork;
+    public edgeMode: EdgeMode = 'contribution';
     private nodeRadius = 12;
-    private layerSpacing = 90;
+    private maxNodeSpacing = 35;
+    private chartHeight = 110;
     private colors = {
         node: '#ecf0f1',
         nodeBorder: '#3498db',
+        pinnedBorder: '#f39c12',
         activeNode: '#2ecc71',
+        negativeNode: '#e74c3c',
         positiveWeight: '#27ae60',
         negativeWeight: '#c0392b',
-        text: '#2c3e50'
+        text: '#2c3e50',
+        tooltip: 'rgba(44, 62, 80, 0.9)'
     };
     private labels = {
-        inputs: ['Bird Y', 'Velocity', 'Dist', 'Gap Y'],
-        output: ['Flap']
+        output: ['Flap'],
+        qValues: ['Q Idle', 'Q Flap']
     };
 
+    // Cursor position in canvas pixels, null when outside
+    private pointer: Point | null = null;
+    // Neuron whose incoming weights are charted; input nodes can't be pinned
+    private pinned: { layer: number, index: number } | null = null;
+
     constructor(canvas: HTMLCanvasElement, neuralNetwork: NeuralNetwork) {
         this.canvas = canvas;
         this.ctx = canvas.getContext('2d')!;
         this.nn = neuralNetwork;
+
+        canvas.addEventListener('mousemove', (e) => {
+            this.pointer = this.canvasPoint(e);
+        });
+        canvas.addEventListener('mouseleave', () => {
+            this.pointer = null;
+        });
+        canvas.addEventListener('click', (e) => {
+            const target = this.targetAt(this.canvasPoint(e), this.layout());
+            const isPinned = target?.type === 'node' &&
+                this.pinned?.layer === target.layer && this.pinned.index === target.index;
+            // Clicking the pinned neuron, an input or empty space unpins
+            this.pinned = target?.type === 'node' && target.layer > 0 && !isPinned
+                ? { layer: target.layer, index: target.index }
+                : null;
+        });
     }
 
     draw() {
@@ -30,74 +80,154 @@ export class Visualizer {
         const width = this.canvas.width;
         const height = this.canvas.height;
 
+        // A swapped-in network may not have the pinned layer or neuron
+        if (this.pinned && (this.pinned.layer >= this.nn.layerSizes.length ||
+            this.pinned.index >= this.nn.layerSizes[this.pinned.layer])) {
+            this.pinned = null;
+        }
+
         // Clear canvas
         ctx.fillStyle = '#ffffff';
         ctx.fillRect(0, 0, width, height);
 
-        const weights = this.nn.getWeights();
-        const activations = this.nn.getActivations();
-
-        // Calculate positions
-        const layers = [
-            { size: this.nn.inputSize, x: 50 },
-            { size: this.nn.hiddenSize, x: width / 2 },
-            { size: this.nn.outputSize, x: width - 50 }
-        ];
-
-        // Get node positions
-        const nodePositions = layers.map((layer) => {
-            const positions = [];
-            const startY = (height - (layer.size - 1) * 35) / 2;
-
-            for (let i = 0; i < layer.size; i++) {
-                positions.push({
-                    x: layer.x,
-                    y: startY + i * 35
-                });
-            }
-            return positions;
-        });
-
-        // Draw connections: Input -> Hidden
-        this.drawConnections(
-            ctx,
-            nodePositions[0],
-            nodePositions[1],
-            weights.inputToHidden,
-            activations.inputs
+        const { weights } = this.nn.getWeights();
+        // Scale each layer into [-1, 1] for colouring, whatever its activation's range
+        const activations = this.nn.getActivations().map((layer, l) =>
+            layer.map(value => this.displayValue(value, l === 0 ? null : this.nn.activations[l - 1]))
         );
+        const layerCount = this.nn.layerSizes.length;
+        const layout = this.layout();
 
-        // Draw connections: Hidden -> Output
-        this.drawConnections(
-            ctx,
-            nodePositions[1],
-            nodePositions[2],
-            weights.hiddenToOutput,
-            activations.hidden
-        );
+        // Draw connections between consecutive layers
+        for (let l = 0; l < layerCount - 1; l++) {
+            this.drawConnections(
+                ctx,
+                layout.nodes[l],
+                layout.nodes[l + 1],
+                weights[l],
+                activations[l]
+            );
+        }
 
         // Draw nodes
-        this.drawNodes(ctx, nodePositions[0], activations.inputs, this.labels.inputs);
-        this.drawNodes(ctx, nodePositions[1], activations.hidden);
-        this.drawNodes(ctx, nodePositions[2], activations.output, this.labels.output);
+        const inputLabels = this.inputLabels();
+        const outputLabels = this.outputLabels();
+        for (let l = 0; l < layerCount; l++) {
+            const labels = l === 0 ? inputLabels : l === layerCount - 1 ? outputLabels : null;
+            this.drawNodes(ctx, layout.nodes[l], layout.radius, activations[l], labels, l === layerCount - 1);
+        }
 
         // Draw layer labels
+        const labelY = layout.chart ? layout.chart.top - 6 : height - 5;
         ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
         ctx.font = '10px Outfit';
         ctx.textAlign = 'center';
-        ctx.fillText('Input', layers[0].x, height - 5);
-        ctx.fillText('Hidden', layers[1].x, height - 5);
-        ctx.fillText('Output', layers[2].x, height - 5);
+        for (let l = 0; l < layerCount; l++) {
+            ctx.fillText(this.layerName(l, layerCount), layout.nodes[l][0].x, labelY);
+        }
+
+        if (this.pinned && layout.chart) {
+            const node = layout.nodes[this.pinned.layer][this.pinned.index];
+            ctx.strokeStyle = this.colors.pinnedBorder;
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.arc(node.x, node.y, layout.radius + 2, 0, Math.PI * 2);
+            ctx.stroke();
+            this.drawIncomingWeights(ctx, layout.chart, this.pinned.layer, this.pinned.index);
+        }
+
+        const target = this.pointer && this.targetAt(this.pointer, layout);
+        if (target && this.pointer) {
+            this.drawTooltip(ctx, this.pointer, this.describe(target));
+        }
+    }
+
+    /**
+     * Node positions fitted to the canvas: layers spread evenly between the
+     * input and output labels, nodes spaced to fill the height, shrinking for large layers
+     */
+    private layout(): Layout {
+        const width = this.canvas.width;
+        const height = this.canvas.height;
+        const sizes = this.nn.layerSizes;
+
+        this.ctx.font = 'bold 8px Outfit';
+        const labelWidth = (labels: string[]) =>
+            labels.reduce((widest, label) => Math.max(widest, this.ctx.measureText(label).width), 0);
+        const largest = sizes.reduce((a, b) => Math.max(a, b), 1);
+
+        const chart = this.pinned ? { top: height - this.chartHeight, height: this.chartHeight } : null;
+        // Room for the layer labels below the nodes
+        const bottom = (chart ? chart.top : height) - 20;
+        const spacing = Math.min(this.maxNodeSpacing, (bottom - 10) / largest);
+        const radius = Math.max(3, Math.min(this.nodeRadius, spacing / 2 - 1));
+
+        const left = 10 + labelWidth(this.inputLabels()) + radius + 4;
+        const right = width - (10 + labelWidth(this.outputLabels()) + radius + 4);
+        const nodes = sizes.map((size, l) => {
+            const x = sizes.length > 1 ? left + (right - left) * l / (sizes.length - 1) : width / 2;
+            const startY = (bottom + 10 - (size - 1) * spacing) / 2;
+            return Array.from({ length: size }, (_, i) => ({ x, y: startY + i * spacing }));
+        });
+
+        return { nodes, radius, chart };
+    }
+
+    private inputLabels(): string[] {
+        return this.nn.inputFeatures.map(name => getFeature(name).label);
+    }
+
+    private outputLabels(): string[] {
+        return this.nn.outputSize === 2 ? this.labels.qValues : this.labels.output;
     }
 
-    drawConnections(ctx: CanvasRenderingContext2D, fromNodes: { x: number, y: number }[], toNodes: { x: number, y: number }[], weights: number[][], fromActivations: number[]) {
+    /**
+     * Map an activation into [-1, 1]. Bounded ranges are shown as-is,
+     * unbounded ones (ReLU, linear) are squashed with tanh.
+     */
+    displayValue(value: number, activationName: string | null): number {
+        if (activationName) {
+            const [min, max] = getActivation(activationName).range;
+            if (!Number.isFinite(min) || !Number.isFinite(max)) {
+                return Math.tanh(value);
+            }
+        }
+        return Math.max(-1, Math.min(1, value));
+    }
+
+    /**
+     * Label for a layer, numbering hidden layers when there are several
+     */
+    layerName(index: number, layerCount: number): string {
+        if (index === 0) return 'Input';
+        if (index === layerCount - 1) return 'Output';
+        return layerCount > 3 ? `Hidden ${index}` : 'Hidden';
+    }
+
+    /**
+     * Name of one node, e.g. "Bird Y" for an input or "Hidden 2 #3"
+     */
+    nodeName(layer: number, index: number): string {
+        const layerCount = this.nn.layerSizes.length;
+        if (layer === 0) return this.inputLabels()[index];
+        if (layer === layerCount - 1) return this.outputLabels()[index] ?? `Output #${index + 1}`;
+        return `${this.layerName(layer, layerCount)} #${index + 1}`;
+    }
+
+    drawConnections(ctx: CanvasRenderingContext2D, fromNodes: Point[], toNodes: Point[], weights: number[][], fromActivations: number[]) {
+        // In weight mode, the layer's largest weight is drawn at full strength
+        const largest = weights.reduce((max, row) =>
+            row.reduce((rowMax, weight) => Math.max(rowMax, Math.abs(weight)), max), 0) || 1;
+
         for (let i = 0; i < fromNodes.length; i++) {
             for (let j = 0; j < toNodes.length; j++) {
                 const weight = weights[i][j];
                 const activation = fromActivations[i] || 0;
 
                 // Color based on weight sign
-                const intensity = Math.min(Math.abs(weight) * activation, 1);
+                const intensity = this.edgeMode === 'weight'
+                    ? Math.abs(weight) / largest
+                    : Math.min(Math.abs(weight * activation), 1);
 
                 if (weight >= 0) {
                     ctx.strokeStyle = `rgba(39, 174, 96, ${0.2 + intensity * 0.6})`;
@@ -115,30 +245,39 @@ export class Visualizer {
     }
 
     /**
-     * Draw nodes for a layer
+     * Draw nodes for a layer, with labels to the left (inputs) or right (outputs)
      */
-    drawNodes(ctx: CanvasRenderingContext2D, positions: { x: number, y: number }[], activations: number[], labels: string[] | null = null) {
+    drawNodes(
+        ctx: CanvasRenderingContext2D,
+        positions: Point[],
+        radius: number,
+        activations: number[],
+        labels: string[] | null = null,
+        labelsRight = false
+    ) {
         for (let i = 0; i < positions.length; i++) {
             const pos = positions[i];
             const activation = activations[i] || 0;
 
-            // Node glow based on activation
-            if (activation > 0.1) {
-                ctx.shadowColor = this.colors.activeNode;
-                ctx.shadowBlur = activation * 15;
+            // Node glow based on activation, red for negative values
+            const magnitude = Math.abs(activation);
+            const activeColor = activation >= 0 ? this.colors.activeNode : this.colors.negativeNode;
+            if (magnitude > 0.1) {
+                ctx.shadowColor = activeColor;
+                ctx.shadowBlur = magnitude * 15;
             }
 
             // Node fill
             const gradient = ctx.createRadialGradient(
                 pos.x, pos.y, 0,
-                pos.x, pos.y, this.nodeRadius
+                pos.x, pos.y, radius
             );
-            gradient.addColorStop(0, this.lerpColor('#bdc3c7', '#2ecc71', activation));
+            gradient.addColorStop(0, lerpColor('#bdc3c7', activeColor, magnitude));
             gradient.addColorStop(1, this.colors.node);
 
             ctx.fillStyle = gradient;
             ctx.beginPath();
-            ctx.arc(pos.x, pos.y, this.nodeRadius, 0, Math.PI * 2);
+            ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
             ctx.fill();
 
             // Node border
@@ -151,36 +290,154 @@ export class Visualizer {
             if (labels && labels[i]) {
                 ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
                 ctx.font = 'bold 8px Outfit';
-                ctx.textAlign = 'left';
-                ctx.fillText(labels[i], pos.x - 45, pos.y + 3);
+                ctx.textAlign = labelsRight ? 'left' : 'right';
+                ctx.fillText(labels[i], pos.x + (labelsRight ? 1 : -1) * (radius + 4), pos.y + 3);
             }
         }
     }
 
     /**
-     * Linear interpolation between two colors
+     * Bar chart of the weights into one neuron, one bar per source node
+     */
+    private drawIncomingWeights(ctx: CanvasRenderingContext2D, area: { top: number, height: number }, layer: number, index: number) {
+        const width = this.canvas.width;
+        const weights = this.nn.getWeights().weights[layer - 1].map(row => row[index]);
+        const largest = weights.reduce((max, weight) => Math.max(max, Math.abs(weight)), 0) || 1;
+
+        const left = 10;
+        const plotWidth = width - 20;
+        const top = area.top + 16;
+        const plotHeight = area.height - 30;
+        const zeroY = top + plotHeight / 2;
+        const barWidth = plotWidth / weights.length;
+
+        ctx.fillStyle = this.colors.text;
+        ctx.font = '10px Outfit';
+        ctx.textAlign = 'left';
+        ctx.fillText(`Weights into ${this.nodeName(layer, index)} (max |w| ${largest.toFixed(2)})`, left, area.top + 10);
+
+        ctx.strokeStyle = '#bdc3c7';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(left, zeroY);
+        ctx.lineTo(left + plotWidth, zeroY);
+        ctx.stroke();
+
+        weights.forEach((weight, i) => {
+            const barHeight = (plotHeight / 2) * weight / largest;
+            ctx.fillStyle = weight >= 0 ? this.colors.positiveWeight : this.colors.negativeWeight;
+            ctx.fillRect(left + i * barWidth + 1, Math.min(zeroY, zeroY - barHeight), Math.max(1, barWidth - 2), Math.abs(barHeight));
+        });
+
+        // Source names, when there is room for them
+        if (layer === 1 && barWidth >= 30) {
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            ctx.font = '8px Outfit';
+            ctx.textAlign = 'center';
+            this.inputLabels().forEach((label, i) => {
+                ctx.fillText(label, left + (i + 0.5) * barWidth, area.top + area.height - 4);
+            });
+        }
+    }
+
+    /**
+     * Tooltip text for a node or connection
      */
-    lerpColor(color1: string, color2: string, t: number): string {
-        const c1 = this.hexToRgb(color1);
-        const c2 = this.hexToRgb(color2);
+    private describe(target: Target): string[] {
+        const outputs = this.nn.getActivations();
+        const { weights, biases } = this.nn.getWeights();
+
+        if (target.type === 'edge') {
+            const weight = weights[target.layer][target.from][target.to];
+            const source = outputs[target.layer][target.from] ?? 0;
+            return [
+                `${this.nodeName(target.layer, target.from)} → ${this.nodeName(target.layer + 1, target.to)}`,
+                `weight ${weight.toFixed(4)}`,
+                `weight × activation ${(weight * source).toFixed(4)}`
+            ];
+        }
+
+        const { layer, index } = target;
+        const lines = [this.nodeName(layer, index)];
+        if (layer === 0) {
+            lines.push(`input ${(outputs[0][index] ?? 0).toFixed(4)}`);
+            return lines;
+        }
+        // Pre-activation from the previous layer's outputs, as in forwardPass
+        const previous = outputs[layer - 1];
+        const preActivation = previous.reduce(
+            (sum, value, i) => sum + value * weights[layer - 1][i][index],
+            biases[layer - 1][index]
+        );
+        lines.push(
+            `pre-activation ${preActivation.toFixed(4)}`,
+            `${this.nn.activations[layer - 1]} → ${(outputs[layer][index] ?? 0).toFixed(4)}`,
+            `bias ${biases[layer - 1][index].toFixed(4)}`
+        );
+        if (!this.pinned || this.pinned.layer !== layer || this.pinned.index !== index) {
+            lines.push('click to chart incoming weights');
+        }
+        return lines;
+    }
+
+    private drawTooltip(ctx: CanvasRenderingContext2D, at: Point, lines: string[]) {
+        ctx.font = '10px Outfit';
+        const lineHeight = 13;
+        const boxWidth = lines.reduce((widest, line) => Math.max(widest, ctx.measureText(line).width), 0) + 12;
+        const boxHeight = lines.length * lineHeight + 8;
+        // Keep the box on the canvas
+        const x = Math.min(at.x + 12, this.canvas.width - boxWidth - 2);
+        const y = Math.min(at.y + 12, this.canvas.height - boxHeight - 2);
 
-        const r = Math.round(c1.r + (c2.r - c1.r) * t);
-        const g = Math.round(c1.g + (c2.g - c1.g) * t);
-        const b = Math.round(c1.b + (c2.b - c1.b) * t);
+        ctx.fillStyle = this.colors.tooltip;
+        ctx.fillRect(x, y, boxWidth, boxHeight);
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'left';
+        lines.forEach((line, i) => ctx.fillText(line, x + 6, y + 4 + (i + 0.8) * lineHeight));
+    }
 
-        return `rgb(${r}, ${g}, ${b})`;
+    /**
+     * Node or connection under a point; nodes win over the connections beneath them
+     */
+    private targetAt(point: Point, layout: Layout): Target | null {
+        for (let l = 0; l < layout.nodes.length; l++) {
+            const index = layout.nodes[l].findIndex(node =>
+                Math.hypot(node.x - point.x, node.y - point.y) <= layout.radius + 1
+            );
+            if (index >= 0) return { type: 'node', layer: l, index };
+        }
+
+        for (let l = 0; l < layout.nodes.length - 1; l++) {
+            const from = layout.nodes[l];
+            const to = layout.nodes[l + 1];
+            if (point.x < from[0].x || point.x > to[0].x) continue;
+            for (let i = 0; i < from.length; i++) {
+                for (let j = 0; j < to.length; j++) {
+                    if (distanceToSegment(point, from[i], to[j]) <= 3) {
+                        return { type: 'edge', layer: l, from: i, to: j };
+                    }
+                }
+            }
+        }
+        return null;
     }
 
     /**
-     * Convert hex to RGB
+     * Mouse position in canvas pixels, allowing for CSS scaling
      */
-    hexToRgb(hex: string): { r: number, g: number, b: number } {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result ? {
-            r: parseInt(result[1], 16),
-            g: parseInt(result[2], 16),
-            b: parseInt(result[3], 16)
-        } : { r: 0, g: 0, b: 0 };
+    private canvasPoint(e: MouseEvent): Point {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * this.canvas.width / rect.width,
+            y: (e.clientY - rect.top) * this.canvas.height / rect.height
+        };
     }
 }
 
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}